@@ -1,124 +1,304 @@
 import { useState, useRef, useEffect } from "react";
-import { Camera, X, Circle, RotateCw } from "lucide-react";
+import {
+  Camera,
+  X,
+  Circle,
+  RotateCw,
+  RotateCcw,
+  Zap,
+  Check,
+  Layers,
+  Flashlight,
+  FlashlightOff,
+  ZoomIn,
+  CameraOff,
+  RefreshCw,
+} from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
 import { useToast } from "@/hooks/use-toast";
+import { useCamera, type CameraStatus } from "@/hooks/use-camera";
+import { useFrameQuality } from "@/hooks/use-frame-quality";
+import { setTorch, setZoom, takeStill } from "@/lib/camera";
+import { AUTO_CAPTURE_SCORE, MAX_MOTION, frameGuidance, type FrameQuality } from "@/lib/frame-quality";
+import { ViewfinderOverlay } from "./ViewfinderOverlay";
+
+// Consecutive good frames needed before auto-capture fires, so a single
+// lucky frame mid-movement doesn't trigger it
+const STEADY_FRAMES_FOR_CAPTURE = 3;
+
+interface CapturedShot {
+  id: string;
+  image: string;
+  score: number | null;
+}
+
+const UNAVAILABLE_MESSAGES: Partial<Record<CameraStatus, { title: string; description: string }>> = {
+  denied: {
+    title: "Camera Access Required",
+    description: "Allow camera access for this site in your browser settings, then try again",
+  },
+  unavailable: {
+    title: "No Camera Found",
+    description: "This device or browser has no camera available. Try uploading a photo instead",
+  },
+  error: {
+    title: "Camera Unavailable",
+    description: "The camera stopped or is in use by another app. Close other apps using it and try again",
+  },
+};
 
 interface CameraCaptureProps {
-  onCapture: (imageDataUrl: string) => void;
+  /** One image, or every page of a multi-page session in order */
+  onCapture: (images: string[]) => void;
   onCancel: () => void;
 }
 
 export const CameraCapture = ({ onCapture, onCancel }: CameraCaptureProps) => {
-  const [stream, setStream] = useState<MediaStream | null>(null);
-  const [hasPermission, setHasPermission] = useState<boolean | null>(null);
   const [facingMode, setFacingMode] = useState<"user" | "environment">("environment");
+  const [deviceId, setDeviceId] = useState<string | undefined>(undefined);
+  const [torchOn, setTorchOn] = useState(false);
+  const [zoom, setZoomLevel] = useState(1);
+  const [autoCapture, setAutoCapture] = useState(false);
+  const [multiPage, setMultiPage] = useState(false);
+  const [shots, setShots] = useState<CapturedShot[]>([]);
+  // Index of the shot the next capture replaces
+  const [retakeIndex, setRetakeIndex] = useState<number | null>(null);
+  const [confirmingDiscard, setConfirmingDiscard] = useState(false);
   const videoRef = useRef<HTMLVideoElement>(null);
+  const steadyFramesRef = useRef(0);
+  // In a session, auto-capture waits for the page to be turned before firing again
+  const awaitingNewPageRef = useRef(false);
+  // Full-resolution stills take a moment; ignore the shutter meanwhile
+  const capturingRef = useRef(false);
+  const { status, error, track, capabilities, devices, retry, stop } = useCamera(videoRef, { deviceId, facingMode });
+  const quality = useFrameQuality(videoRef, status === "active");
   const { toast } = useToast();
+  // The camera the browser actually opened, even when chosen by facing mode
+  const currentDeviceId = deviceId ?? track?.getSettings().deviceId;
 
+  // Torch and zoom reset whenever a new camera track starts
   useEffect(() => {
-    requestCameraAccess();
-    return () => {
-      if (stream) {
-        stream.getTracks().forEach(track => track.stop());
+    setTorchOn(false);
+    setZoomLevel(capabilities.zoom?.min ?? 1);
+  }, [track, capabilities]);
+
+  useEffect(() => {
+    if (!autoCapture || !quality) return;
+
+    if (awaitingNewPageRef.current) {
+      if (quality.motion !== null && quality.motion > MAX_MOTION * 2) {
+        awaitingNewPageRef.current = false;
       }
-    };
-  }, [facingMode]);
+      return;
+    }
 
-  const requestCameraAccess = async () => {
+    steadyFramesRef.current = quality.acceptable ? steadyFramesRef.current + 1 : 0;
+    if (steadyFramesRef.current >= STEADY_FRAMES_FOR_CAPTURE) {
+      steadyFramesRef.current = 0;
+      capturePhoto(quality);
+    }
+  }, [autoCapture, quality]);
+
+  const capturePhoto = async (frameQuality: FrameQuality | null = quality) => {
+    if (!videoRef.current || capturingRef.current) return;
+
+    capturingRef.current = true;
     try {
-      const mediaStream = await navigator.mediaDevices.getUserMedia({
-        video: { facingMode },
-        audio: false,
-      });
-      
-      setStream(mediaStream);
-      setHasPermission(true);
-      
-      if (videoRef.current) {
-        videoRef.current.srcObject = mediaStream;
+      const imageDataUrl = await takeStill(track ?? undefined, videoRef.current);
+
+      if (multiPage) {
+        addShot({ id: crypto.randomUUID(), image: imageDataUrl, score: frameQuality?.score ?? null });
+        return;
       }
+      
+      // Stop the camera stream
+      stop();
+
+      onCapture([imageDataUrl]);
+      toast({
+        title: "Photo captured!",
+        description: !frameQuality
+          ? "Adjust the image before processing"
+          : frameQuality.score >= AUTO_CAPTURE_SCORE
+            ? `Quality ${frameQuality.score}/100. Adjust the image before processing`
+            : `Quality ${frameQuality.score}/100. This photo may not read well; consider retaking it`,
+      });
     } catch (error) {
-      console.error("Camera access error:", error);
-      setHasPermission(false);
+      console.error("Capture error:", error);
       toast({
-        title: "Camera access denied",
-        description: "Please allow camera access to take photos",
+        title: "Capture failed",
+        description: "Could not take the photo",
         variant: "destructive",
       });
+    } finally {
+      capturingRef.current = false;
     }
   };
 
-  const capturePhoto = () => {
-    if (!videoRef.current) return;
-
-    const canvas = document.createElement("canvas");
-    canvas.width = videoRef.current.videoWidth;
-    canvas.height = videoRef.current.videoHeight;
-    
-    const ctx = canvas.getContext("2d");
-    if (ctx) {
-      ctx.drawImage(videoRef.current, 0, 0);
-      const imageDataUrl = canvas.toDataURL("image/png");
-      
-      // Stop the camera stream
-      if (stream) {
-        stream.getTracks().forEach(track => track.stop());
-      }
-      
-      onCapture(imageDataUrl);
-      toast({
-        title: "Photo captured!",
-        description: "Adjust the image before processing",
-      });
-    }
+  const addShot = (shot: CapturedShot) => {
+    const pageNumber = retakeIndex === null ? shots.length + 1 : retakeIndex + 1;
+    setShots((prev) =>
+      retakeIndex === null ? [...prev, shot] : prev.map((s, i) => (i === retakeIndex ? shot : s))
+    );
+    setRetakeIndex(null);
+    awaitingNewPageRef.current = true;
+
+    toast({
+      title: retakeIndex === null ? `Page ${pageNumber} captured` : `Page ${pageNumber} retaken`,
+      description:
+        shot.score === null
+          ? "Turn to the next page"
+          : shot.score >= AUTO_CAPTURE_SCORE
+            ? `Quality ${shot.score}/100`
+            : `Quality ${shot.score}/100. This page may not read well; consider retaking it`,
+    });
+  };
+
+  const deleteShot = (index: number) => {
+    setShots((prev) => prev.filter((_, i) => i !== index));
+    setRetakeIndex(null);
+  };
+
+  const finishSession = () => {
+    if (shots.length === 0) return;
+    stop();
+    onCapture(shots.map((shot) => shot.image));
   };
 
   const toggleCamera = () => {
-    if (stream) {
-      stream.getTracks().forEach(track => track.stop());
+    // With a known device list, step through every camera rather than
+    // just front and back; phones often have wide and telephoto lenses too
+    if (devices.length > 1) {
+      const current = devices.findIndex((device) => device.deviceId === currentDeviceId);
+      setDeviceId(devices[(current + 1) % devices.length].deviceId);
+    } else {
+      setFacingMode(prev => prev === "user" ? "environment" : "user");
     }
-    setFacingMode(prev => prev === "user" ? "environment" : "user");
   };
 
-  const handleCancel = () => {
-    if (stream) {
-      stream.getTracks().forEach(track => track.stop());
+  const selectCamera = (id: string) => {
+    if (id === currentDeviceId) return;
+    setDeviceId(id);
+  };
+
+  const toggleTorch = async () => {
+    if (!track) return;
+    try {
+      await setTorch(track, !torchOn);
+      setTorchOn(!torchOn);
+    } catch (error) {
+      console.error("Torch error:", error);
+    }
+  };
+
+  const handleZoomChange = (value: number) => {
+    setZoomLevel(value);
+    if (track) {
+      setZoom(track, value).catch((error) => console.error("Zoom error:", error));
     }
+  };
+
+  const discardSession = () => {
+    stop();
     onCancel();
   };
 
-  if (hasPermission === false) {
+  const handleCancel = () => {
+    // Pages already taken shouldn't vanish on a stray tap
+    if (shots.length > 0) {
+      setConfirmingDiscard(true);
+    } else {
+      discardSession();
+    }
+  };
+
+  const discardDialog = (
+    <AlertDialog open={confirmingDiscard} onOpenChange={setConfirmingDiscard}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Discard {shots.length} {shots.length === 1 ? "page" : "pages"}?</AlertDialogTitle>
+          <AlertDialogDescription>
+            The photos taken in this session haven't been added to the document yet.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Keep scanning</AlertDialogCancel>
+          <AlertDialogAction onClick={discardSession}>Discard</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+
+  const unavailable = UNAVAILABLE_MESSAGES[status];
+  if (unavailable) {
+    // The browser's own message helps tell a busy camera from a broken one
+    const detail = status === "error" && error instanceof Error ? error.message : null;
     return (
       <Card className="p-8 bg-gradient-to-b from-card to-card/50">
         <div className="flex flex-col items-center justify-center min-h-[400px] space-y-6">
           <div className="w-20 h-20 rounded-full bg-destructive/10 flex items-center justify-center">
-            <Camera className="w-10 h-10 text-destructive" />
+            <CameraOff className="w-10 h-10 text-destructive" />
           </div>
           <div className="text-center space-y-2">
             <h3 className="text-2xl font-semibold text-foreground">
-              Camera Access Required
+              {unavailable.title}
             </h3>
             <p className="text-muted-foreground max-w-sm">
-              Please allow camera access in your browser settings to take photos
+              {unavailable.description}
             </p>
+            {detail && (
+              <p className="text-xs text-muted-foreground/80 max-w-sm">{detail}</p>
+            )}
+          </div>
+          <div className="flex flex-wrap justify-center gap-3">
+            <Button onClick={handleCancel} variant="outline">
+              Go Back
+            </Button>
+            {status !== "unavailable" && (
+              <Button onClick={retry} className="gap-2">
+                <RefreshCw className="w-4 h-4" />
+                Try Again
+              </Button>
+            )}
+            {/* Pages already taken in this session shouldn't be lost */}
+            {shots.length > 0 && (
+              <Button onClick={finishSession} variant="secondary" className="gap-2">
+                <Check className="w-4 h-4" />
+                Use {shots.length} {shots.length === 1 ? "page" : "pages"}
+              </Button>
+            )}
           </div>
-          <Button onClick={handleCancel} variant="outline">
-            Go Back
-          </Button>
         </div>
+        {discardDialog}
       </Card>
     );
   }
 
-  if (hasPermission === null) {
+  if (status !== "active") {
     return (
       <Card className="p-8 bg-gradient-to-b from-card to-card/50">
         <div className="flex flex-col items-center justify-center min-h-[400px] space-y-6">
           <div className="w-20 h-20 rounded-full bg-primary/10 flex items-center justify-center">
             <Camera className="w-10 h-10 text-primary animate-pulse" />
           </div>
-          <p className="text-muted-foreground">Requesting camera access...</p>
+          <p className="text-muted-foreground">
+            {status === "paused" ? "Camera paused" : "Requesting camera access..."}
+          </p>
         </div>
       </Card>
     );
@@ -133,6 +313,33 @@ export const CameraCapture = ({ onCapture, onCancel }: CameraCaptureProps) => {
           playsInline
           className="w-full h-full object-cover"
         />
+        <ViewfinderOverlay videoRef={videoRef} quality={quality} />
+
+        {/* Quality score */}
+        {autoCapture && (
+          <div className="absolute top-3 left-3 px-2 py-1 rounded-md bg-black/60 text-white text-xs font-medium">
+            {quality ? (
+              <span className={quality.score >= AUTO_CAPTURE_SCORE ? "text-green-400" : "text-amber-300"}>
+                Quality {quality.score}/100
+              </span>
+            ) : (
+              "Checking focus..."
+            )}
+          </div>
+        )}
+
+        {/* Guidance */}
+        {quality && (
+          <div className="absolute bottom-3 inset-x-0 flex justify-center pointer-events-none">
+            <span
+              className={`px-3 py-1 rounded-full text-sm font-medium ${
+                quality.acceptable ? "bg-green-500/90 text-white" : "bg-black/60 text-white"
+              }`}
+            >
+              {frameGuidance(quality)}
+            </span>
+          </div>
+        )}
       </div>
       
       <div className="flex items-center justify-center gap-4">
@@ -146,11 +353,11 @@ export const CameraCapture = ({ onCapture, onCancel }: CameraCaptureProps) => {
         </Button>
         
         <Button
-          onClick={capturePhoto}
+          onClick={() => capturePhoto()}
           size="icon"
           className="h-16 w-16 rounded-full"
         >
-          <Circle className="h-8 w-8" />
+          {retakeIndex === null ? <Circle className="h-8 w-8" /> : <RotateCcw className="h-7 w-7" />}
         </Button>
         
         <Button
@@ -163,9 +370,124 @@ export const CameraCapture = ({ onCapture, onCancel }: CameraCaptureProps) => {
         </Button>
       </div>
       
+      {/* Camera settings */}
+      {(devices.length > 1 || capabilities.torch || capabilities.zoom) && (
+        <div className="flex flex-wrap items-center gap-3">
+          {devices.length > 1 && (
+            <Select value={currentDeviceId ?? ""} onValueChange={selectCamera}>
+              <SelectTrigger className="w-auto min-w-[180px] flex-1">
+                <SelectValue placeholder="Choose camera" />
+              </SelectTrigger>
+              <SelectContent>
+                {devices.map((device) => (
+                  <SelectItem key={device.deviceId} value={device.deviceId}>
+                    {device.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {capabilities.torch && (
+            <Button
+              onClick={toggleTorch}
+              variant={torchOn ? "default" : "outline"}
+              size="icon"
+              aria-label={torchOn ? "Turn torch off" : "Turn torch on"}
+            >
+              {torchOn ? <Flashlight className="h-4 w-4" /> : <FlashlightOff className="h-4 w-4" />}
+            </Button>
+          )}
+          {capabilities.zoom && (
+            <div className="flex items-center gap-2 flex-1 min-w-[160px]">
+              <ZoomIn className="w-4 h-4 text-muted-foreground" />
+              <Slider
+                value={[zoom]}
+                onValueChange={(value) => handleZoomChange(value[0])}
+                min={capabilities.zoom.min}
+                max={capabilities.zoom.max}
+                step={capabilities.zoom.step}
+                className="flex-1"
+              />
+              <span className="text-sm text-muted-foreground w-10 text-right">{zoom.toFixed(1)}x</span>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Session pages */}
+      {shots.length > 0 && (
+        <div className="space-y-3">
+          <div className="flex gap-2 overflow-x-auto pb-1">
+            {shots.map((shot, index) => (
+              <div
+                key={shot.id}
+                className={`relative shrink-0 w-20 rounded-md overflow-hidden border-2 ${
+                  retakeIndex === index ? "border-primary" : "border-border"
+                }`}
+              >
+                <img src={shot.image} alt={`Page ${index + 1}`} className="w-full h-24 object-cover" />
+                <span className="absolute top-1 left-1 px-1 rounded bg-black/60 text-white text-xs">
+                  {index + 1}
+                </span>
+                <div className="absolute bottom-0 inset-x-0 flex justify-between bg-black/60">
+                  <button
+                    type="button"
+                    onClick={() => setRetakeIndex(retakeIndex === index ? null : index)}
+                    className="p-1 text-white hover:text-primary"
+                    aria-label={`Retake page ${index + 1}`}
+                  >
+                    <RotateCcw className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => deleteShot(index)}
+                    className="p-1 text-white hover:text-destructive"
+                    aria-label={`Delete page ${index + 1}`}
+                  >
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+          {retakeIndex !== null && (
+            <p className="text-center text-sm text-primary">
+              The next photo replaces page {retakeIndex + 1}
+            </p>
+          )}
+          <Button onClick={finishSession} className="w-full gap-2">
+            <Check className="w-4 h-4" />
+            Done ({shots.length} {shots.length === 1 ? "page" : "pages"})
+          </Button>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center justify-center gap-x-6 gap-y-2">
+        <div className="flex items-center gap-2">
+          <Switch id="auto-capture" checked={autoCapture} onCheckedChange={setAutoCapture} />
+          <Label htmlFor="auto-capture" className="flex items-center gap-1 text-sm">
+            <Zap className="w-4 h-4" />
+            Auto-capture when sharp and steady
+          </Label>
+        </div>
+        <div className="flex items-center gap-2">
+          <Switch
+            id="multi-page"
+            checked={multiPage}
+            onCheckedChange={setMultiPage}
+            disabled={shots.length > 0}
+          />
+          <Label htmlFor="multi-page" className="flex items-center gap-1 text-sm">
+            <Layers className="w-4 h-4" />
+            Scan several pages
+          </Label>
+        </div>
+      </div>
+
       <p className="text-center text-sm text-muted-foreground">
         Position text clearly in frame for best results
       </p>
+      {discardDialog}
     </div>
   );
 };
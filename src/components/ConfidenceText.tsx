@@ -0,0 +1,172 @@
+import { useEffect, useRef, useState } from "react";
+import { HoverCard, HoverCardContent, HoverCardTrigger } from "@/components/ui/hover-card";
+import { LOW_CONFIDENCE_THRESHOLD, getWords, type OCRBlock, type OCRWord } from "@/lib/ocr";
+import { cn } from "@/lib/utils";
+import type { LineHighlight } from "./SourceImageView";
+
+interface ConfidenceTextProps {
+  blocks: OCRBlock[];
+  /** The image the words were recognised from, used for hover snippets */
+  image: string | null;
+  onCorrectWord: (wordId: string, text: string) => void;
+  highlight?: LineHighlight | null;
+  onHighlightChange?: (highlight: LineHighlight | null) => void;
+}
+
+const SNIPPET_PADDING = 6;
+
+const WordSnippet = ({ source, word }: { source: HTMLImageElement; word: OCRWord }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+
+    const x = Math.max(0, word.bbox.x0 - SNIPPET_PADDING);
+    const y = Math.max(0, word.bbox.y0 - SNIPPET_PADDING);
+    const width = Math.min(source.width, word.bbox.x1 + SNIPPET_PADDING) - x;
+    const height = Math.min(source.height, word.bbox.y1 + SNIPPET_PADDING) - y;
+
+    canvas.width = width;
+    canvas.height = height;
+    ctx.drawImage(source, x, y, width, height, 0, 0, width, height);
+  }, [source, word.bbox]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="max-w-full max-h-24 border border-border rounded bg-white"
+    />
+  );
+};
+
+const WordEditor = ({ word, onDone }: { word: OCRWord; onDone: (text: string | null) => void }) => {
+  const [value, setValue] = useState(word.text);
+
+  return (
+    <input
+      autoFocus
+      value={value}
+      size={Math.max(value.length, 2)}
+      onChange={(e) => setValue(e.target.value)}
+      onBlur={() => onDone(value)}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") {
+          e.preventDefault();
+          onDone(value);
+        } else if (e.key === "Escape") {
+          onDone(null);
+        }
+      }}
+      className="px-1 rounded border border-primary bg-background text-foreground font-mono text-sm outline-none"
+    />
+  );
+};
+
+export const ConfidenceText = ({
+  blocks,
+  image,
+  onCorrectWord,
+  highlight,
+  onHighlightChange,
+}: ConfidenceTextProps) => {
+  const [source, setSource] = useState<HTMLImageElement | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (highlight?.source !== "image") return;
+    containerRef.current
+      ?.querySelector(`[data-line-id="${highlight.lineId}"]`)
+      ?.scrollIntoView({ block: "nearest", behavior: "smooth" });
+  }, [highlight]);
+
+  useEffect(() => {
+    if (!image) {
+      setSource(null);
+      return;
+    }
+    const img = new Image();
+    img.onload = () => setSource(img);
+    img.src = image;
+  }, [image]);
+
+  const uncertainCount = getWords(blocks).filter(
+    (word) => word.confidence < LOW_CONFIDENCE_THRESHOLD
+  ).length;
+
+  const finishEditing = (word: OCRWord, text: string | null) => {
+    setEditingId(null);
+    const trimmed = text?.trim();
+    if (trimmed && trimmed !== word.text) {
+      onCorrectWord(word.id, trimmed);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-muted-foreground">
+        {uncertainCount > 0
+          ? `${uncertainCount} uncertain ${uncertainCount === 1 ? "word" : "words"} highlighted. Hover to compare with the image, click to correct.`
+          : "All words recognised with high confidence. Click any word to correct it."}
+      </p>
+      <div
+        ref={containerRef}
+        className="space-y-4 text-sm text-foreground font-mono"
+        onMouseLeave={() => onHighlightChange?.(null)}
+      >
+        {blocks.map((block) => (
+          <div key={block.id}>
+            {block.lines.map((line) => (
+              <div
+                key={line.id}
+                data-line-id={line.id}
+                onMouseEnter={() => onHighlightChange?.({ lineId: line.id, source: "text" })}
+                className={cn(
+                  "leading-relaxed rounded transition-colors",
+                  highlight?.lineId === line.id && "bg-primary/10"
+                )}
+              >
+                {line.words.map((word) => {
+                  const isUncertain = word.confidence < LOW_CONFIDENCE_THRESHOLD;
+
+                  return (
+                    <span key={word.id}>
+                      {editingId === word.id ? (
+                        <WordEditor word={word} onDone={(text) => finishEditing(word, text)} />
+                      ) : (
+                        <HoverCard openDelay={200} closeDelay={50}>
+                          <HoverCardTrigger asChild>
+                            <span
+                              onClick={() => setEditingId(word.id)}
+                              className={cn(
+                                "cursor-text rounded px-0.5 transition-colors hover:bg-primary/10",
+                                isUncertain && "bg-amber-200/60 dark:bg-amber-500/30 underline decoration-dotted decoration-amber-600",
+                                word.corrected && "bg-emerald-200/50 dark:bg-emerald-500/20"
+                              )}
+                            >
+                              {word.text}
+                            </span>
+                          </HoverCardTrigger>
+                          <HoverCardContent className="w-auto max-w-xs space-y-2" side="top">
+                            <p className="text-xs text-muted-foreground">
+                              {word.corrected
+                                ? "Corrected by you"
+                                : `Confidence: ${Math.round(word.confidence)}%`}
+                            </p>
+                            {source && <WordSnippet source={source} word={word} />}
+                          </HoverCardContent>
+                        </HoverCard>
+                      )}{" "}
+                    </span>
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
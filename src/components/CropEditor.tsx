@@ -0,0 +1,89 @@
+import { useRef, useState } from "react";
+import type { Point, Quad } from "@/lib/perspective";
+
+interface CropEditorProps {
+  image: string;
+  width: number;
+  height: number;
+  quad: Quad;
+  /** Rectangle mode keeps the crop axis-aligned by moving neighbouring corners too */
+  mode: "perspective" | "rectangle";
+  onChange: (quad: Quad) => void;
+}
+
+const HANDLE_RADIUS = 10;
+
+export const CropEditor = ({ image, width, height, quad, mode, onChange }: CropEditorProps) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [dragging, setDragging] = useState<number | null>(null);
+
+  const toImagePoint = (e: React.PointerEvent): Point => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(width, Math.max(0, ((e.clientX - rect.left) / rect.width) * width)),
+      y: Math.min(height, Math.max(0, ((e.clientY - rect.top) / rect.height) * height)),
+    };
+  };
+
+  const moveCorner = (index: number, point: Point) => {
+    const next = quad.map((p) => ({ ...p })) as Quad;
+    next[index] = point;
+
+    if (mode === "rectangle") {
+      // tl, tr, br, bl: corners sharing an x or y edge follow along
+      const sameX = [3, 2, 1, 0][index];
+      const sameY = [1, 0, 3, 2][index];
+      next[sameX].x = point.x;
+      next[sameY].y = point.y;
+    }
+
+    onChange(next);
+  };
+
+  // Handles stay the same size on screen whatever the photo resolution
+  const scale = svgRef.current
+    ? width / svgRef.current.getBoundingClientRect().width || 1
+    : width / 600;
+
+  return (
+    <div className="relative inline-block max-w-full touch-none select-none">
+      <img src={image} alt="Crop preview" className="block max-w-full max-h-[360px]" draggable={false} />
+      <svg
+        ref={svgRef}
+        className="absolute inset-0 w-full h-full"
+        viewBox={`0 0 ${width} ${height}`}
+        preserveAspectRatio="none"
+        onPointerMove={(e) => dragging !== null && moveCorner(dragging, toImagePoint(e))}
+        onPointerUp={() => setDragging(null)}
+        onPointerLeave={() => setDragging(null)}
+      >
+        <path
+          d={`M0 0H${width}V${height}H0Z M${quad.map((p) => `${p.x} ${p.y}`).join(" L")}Z`}
+          fillRule="evenodd"
+          className="fill-black/40"
+        />
+        <polygon
+          points={quad.map((p) => `${p.x},${p.y}`).join(" ")}
+          className="fill-none stroke-primary"
+          strokeWidth={2}
+          vectorEffect="non-scaling-stroke"
+        />
+        {quad.map((p, i) => (
+          <circle
+            key={i}
+            cx={p.x}
+            cy={p.y}
+            r={HANDLE_RADIUS * scale}
+            className="fill-primary/30 stroke-primary cursor-grab active:cursor-grabbing"
+            strokeWidth={2}
+            vectorEffect="non-scaling-stroke"
+            onPointerDown={(e) => {
+              e.currentTarget.ownerSVGElement?.setPointerCapture(e.pointerId);
+              setDragging(i);
+            }}
+          />
+        ))}
+      </svg>
+    </div>
+  );
+};
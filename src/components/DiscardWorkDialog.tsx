@@ -0,0 +1,43 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+interface DiscardWorkDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** What happens to the scan, e.g. "Opening a document will replace them." */
+  consequence: string;
+  confirmLabel: string;
+  onConfirm: () => void;
+}
+
+/** Asks before throwing away scanned pages that aren't in the library */
+export const DiscardWorkDialog = ({
+  open,
+  onOpenChange,
+  consequence,
+  confirmLabel,
+  onConfirm,
+}: DiscardWorkDialogProps) => (
+  <AlertDialog open={open} onOpenChange={onOpenChange}>
+    <AlertDialogContent>
+      <AlertDialogHeader>
+        <AlertDialogTitle>Discard the current scan?</AlertDialogTitle>
+        <AlertDialogDescription>
+          Its pages aren't saved to the library. {consequence}
+        </AlertDialogDescription>
+      </AlertDialogHeader>
+      <AlertDialogFooter>
+        <AlertDialogCancel>Keep working</AlertDialogCancel>
+        <AlertDialogAction onClick={onConfirm}>{confirmLabel}</AlertDialogAction>
+      </AlertDialogFooter>
+    </AlertDialogContent>
+  </AlertDialog>
+);
@@ -0,0 +1,429 @@
+import { useMemo, useState } from "react";
+import { FileText, FolderOpen, HardDrive, LayoutGrid, List, Loader2, Pencil, Search, Trash2 } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useDocumentLibrary } from "@/hooks/use-document-library";
+import { useLibrarySearch } from "@/hooks/use-library-search";
+import { useToast } from "@/hooks/use-toast";
+import type { LibraryDocument, LibraryDocumentSummary } from "@/lib/library-store";
+import { locationKey, searchLibrary, type SearchLocation, type SearchResult } from "@/lib/search";
+import { STUDY_MATERIAL_TITLES } from "@/lib/study-tools";
+
+interface DocumentLibraryProps {
+  /** `location` is set when opening a search result */
+  onOpen: (document: LibraryDocument, location?: SearchLocation) => void;
+}
+
+type LibraryView = "list" | "grid";
+type DateFilter = "any" | "week" | "month" | "year";
+
+const ALL = "all";
+
+const DATE_FILTER_DAYS: Record<Exclude<DateFilter, "any">, number> = { week: 7, month: 31, year: 365 };
+
+const locationLabel = (location: SearchLocation) =>
+  location.kind === "page"
+    ? `Page ${location.pageIndex + 1}`
+    : location.kind === "material"
+      ? STUDY_MATERIAL_TITLES[location.tool]
+      : "Q&A";
+
+const HighlightedSnippet = ({ result }: { result: SearchResult }) => {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  result.highlights.forEach(([start, end], i) => {
+    if (start < cursor) return;
+    parts.push(result.snippet.slice(cursor, start));
+    parts.push(
+      <mark key={i} className="bg-primary/20 text-foreground rounded-sm px-0.5">
+        {result.snippet.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  });
+  parts.push(result.snippet.slice(cursor));
+  return <p className="text-sm text-muted-foreground">{parts}</p>;
+};
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 ** 3) return `${(bytes / 1024 ** 2).toFixed(1)} MB`;
+  return `${(bytes / 1024 ** 3).toFixed(1)} GB`;
+};
+
+const formatDate = (time: number) =>
+  new Date(time).toLocaleDateString(undefined, { day: "numeric", month: "short", year: "numeric" });
+
+const parseTags = (value: string) => [
+  ...new Set(
+    value
+      .split(",")
+      .map((tag) => tag.trim().toLowerCase())
+      .filter(Boolean)
+  ),
+];
+
+export const DocumentLibrary = ({ onOpen }: DocumentLibraryProps) => {
+  const { documents, loaded, usage, getDocument, updateDocumentDetails, deleteDocument } = useDocumentLibrary();
+  const [view, setView] = useState<LibraryView>("grid");
+  const [editing, setEditing] = useState<LibraryDocumentSummary | null>(null);
+  const [editTitle, setEditTitle] = useState("");
+  const [editTags, setEditTags] = useState("");
+  const [openingId, setOpeningId] = useState<string | null>(null);
+  const [query, setQuery] = useState("");
+  const [tagFilter, setTagFilter] = useState(ALL);
+  const [dateFilter, setDateFilter] = useState<DateFilter>("any");
+  const [languageFilter, setLanguageFilter] = useState(ALL);
+  const { toast } = useToast();
+  const searchIndex = useLibrarySearch(documents, query.trim().length > 0);
+
+  const allTags = useMemo(() => [...new Set(documents.flatMap((doc) => doc.tags))].sort(), [documents]);
+  const allLanguages = useMemo(() => [...new Set(documents.flatMap((doc) => doc.languages))].sort(), [documents]);
+
+  const filtered = useMemo(() => {
+    const since = dateFilter === "any" ? 0 : Date.now() - DATE_FILTER_DAYS[dateFilter] * 24 * 60 * 60 * 1000;
+    return documents.filter(
+      (doc) =>
+        (tagFilter === ALL || doc.tags.includes(tagFilter)) &&
+        (languageFilter === ALL || doc.languages.includes(languageFilter)) &&
+        doc.updatedAt >= since
+    );
+  }, [documents, tagFilter, languageFilter, dateFilter]);
+
+  const results = useMemo(
+    () => (searchIndex && query.trim() ? searchLibrary(searchIndex, query, new Set(filtered.map((doc) => doc.id))) : []),
+    [searchIndex, query, filtered]
+  );
+
+  if (!loaded || documents.length === 0) return null;
+
+  const handleOpen = async (id: string, location?: SearchLocation) => {
+    setOpeningId(id);
+    try {
+      const document = await getDocument(id);
+      if (!document) throw new Error("Document not found");
+      onOpen(document, location);
+    } catch (error) {
+      console.error("Could not open document:", error);
+      toast({
+        title: "Could not open document",
+        description: error instanceof Error ? error.message : "An error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setOpeningId(null);
+    }
+  };
+
+  const startEditing = (document: LibraryDocumentSummary) => {
+    setEditing(document);
+    setEditTitle(document.title);
+    setEditTags(document.tags.join(", "));
+  };
+
+  const saveDetails = async () => {
+    if (!editing) return;
+    try {
+      await updateDocumentDetails(editing.id, {
+        title: editTitle.trim() || editing.title,
+        tags: parseTags(editTags),
+      });
+      setEditing(null);
+    } catch (error) {
+      console.error("Could not update document:", error);
+      toast({ title: "Could not save changes", variant: "destructive" });
+    }
+  };
+
+  const handleDelete = async (document: LibraryDocumentSummary) => {
+    try {
+      await deleteDocument(document.id);
+      toast({ title: "Document deleted", description: document.title });
+    } catch (error) {
+      console.error("Could not delete document:", error);
+      toast({ title: "Could not delete document", variant: "destructive" });
+    }
+  };
+
+  const renderActions = (document: LibraryDocumentSummary) => (
+    <div className="flex items-center gap-1 shrink-0">
+      <Button
+        onClick={() => handleOpen(document.id)}
+        disabled={openingId !== null}
+        variant="outline"
+        size="sm"
+        className="gap-1"
+      >
+        <FolderOpen className="w-4 h-4" />
+        Open
+      </Button>
+      <Button onClick={() => startEditing(document)} variant="ghost" size="icon" aria-label={`Edit ${document.title}`}>
+        <Pencil className="w-4 h-4" />
+      </Button>
+      <AlertDialog>
+        <AlertDialogTrigger asChild>
+          <Button variant="ghost" size="icon" aria-label={`Delete ${document.title}`}>
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </AlertDialogTrigger>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this document?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{document.title}", its pages and study material will be removed from this browser.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => handleDelete(document)}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+
+  const renderThumbnail = (document: LibraryDocumentSummary, className: string) =>
+    document.thumbnail ? (
+      <img src={document.thumbnail} alt="" className={`${className} object-cover bg-muted`} />
+    ) : (
+      <div className={`${className} flex items-center justify-center bg-muted`}>
+        <FileText className="w-6 h-6 text-muted-foreground" />
+      </div>
+    );
+
+  const renderDetails = (document: LibraryDocumentSummary) => (
+    <>
+      <p className="text-sm font-medium text-foreground truncate">{document.title}</p>
+      <p className="text-xs text-muted-foreground">
+        {document.pageCount} {document.pageCount === 1 ? "page" : "pages"} · {formatDate(document.updatedAt)} ·{" "}
+        {formatBytes(document.size)}
+      </p>
+      {document.tags.length > 0 && (
+        <div className="flex flex-wrap gap-1 pt-1">
+          {document.tags.map((tag) => (
+            <Badge key={tag} variant="secondary" className="text-xs">
+              {tag}
+            </Badge>
+          ))}
+        </div>
+      )}
+    </>
+  );
+
+  return (
+    <Card className="w-full max-w-7xl mx-auto mt-6 p-6 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <FolderOpen className="w-5 h-5 text-primary" />
+          <div>
+            <h3 className="text-lg font-semibold text-foreground">Library</h3>
+            <p className="text-xs text-muted-foreground">
+              {documents.length} {documents.length === 1 ? "document" : "documents"} saved in this browser
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-4">
+          {/* Storage usage */}
+          {usage && usage.quota > 0 && (
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              <HardDrive className="w-4 h-4" />
+              <div className="w-32 space-y-1">
+                <Progress value={(usage.used / usage.quota) * 100} className="h-1.5" />
+                <p>
+                  {formatBytes(usage.used)} of {formatBytes(usage.quota)}
+                </p>
+              </div>
+            </div>
+          )}
+          <ToggleGroup
+            type="single"
+            value={view}
+            onValueChange={(value) => value && setView(value as LibraryView)}
+            size="sm"
+          >
+            <ToggleGroupItem value="grid" aria-label="Grid view">
+              <LayoutGrid className="w-4 h-4" />
+            </ToggleGroupItem>
+            <ToggleGroupItem value="list" aria-label="List view">
+              <List className="w-4 h-4" />
+            </ToggleGroupItem>
+          </ToggleGroup>
+        </div>
+      </div>
+
+      {/* Search and filters */}
+      <div className="flex flex-wrap gap-2">
+        <div className="relative flex-1 min-w-[200px]">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search text and study material…"
+            className="pl-9"
+            aria-label="Search the library"
+          />
+        </div>
+        {allTags.length > 0 && (
+          <Select value={tagFilter} onValueChange={setTagFilter}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All tags</SelectItem>
+              {allTags.map((tag) => (
+                <SelectItem key={tag} value={tag}>
+                  {tag}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <Select value={dateFilter} onValueChange={(value) => setDateFilter(value as DateFilter)}>
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="any">Any time</SelectItem>
+            <SelectItem value="week">Past week</SelectItem>
+            <SelectItem value="month">Past month</SelectItem>
+            <SelectItem value="year">Past year</SelectItem>
+          </SelectContent>
+        </Select>
+        {allLanguages.length > 1 && (
+          <Select value={languageFilter} onValueChange={setLanguageFilter}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All languages</SelectItem>
+              {allLanguages.map((language) => (
+                <SelectItem key={language} value={language}>
+                  {language}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      {query.trim() ? (
+        !searchIndex ? (
+          <div className="flex items-center gap-2 py-6 text-sm text-muted-foreground">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Indexing your library…
+          </div>
+        ) : results.length === 0 ? (
+          <p className="py-6 text-sm text-muted-foreground">No matches for "{query.trim()}"</p>
+        ) : (
+          <div className="divide-y divide-border">
+            {results.map((result) => {
+              const document = documents.find((doc) => doc.id === result.docId);
+              const key = locationKey(result.docId, result.location);
+              return (
+                <button
+                  key={key}
+                  type="button"
+                  onClick={() => handleOpen(result.docId, result.location)}
+                  disabled={openingId !== null}
+                  className="w-full text-left py-3 px-2 rounded-md hover:bg-muted/50 space-y-1"
+                >
+                  <div className="flex items-center gap-2">
+                    <p className="text-sm font-medium text-foreground truncate">{document?.title}</p>
+                    <Badge variant="outline" className="text-xs shrink-0">
+                      {locationLabel(result.location)}
+                    </Badge>
+                    {result.matches > 1 && (
+                      <span className="text-xs text-muted-foreground shrink-0">{result.matches} matches</span>
+                    )}
+                  </div>
+                  <HighlightedSnippet result={result} />
+                </button>
+              );
+            })}
+          </div>
+        )
+      ) : filtered.length === 0 ? (
+        <p className="py-6 text-sm text-muted-foreground">No documents match these filters</p>
+      ) : view === "grid" ? (
+        <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-4">
+          {filtered.map((document) => (
+            <div key={document.id} className="rounded-lg border border-border overflow-hidden flex flex-col">
+              <button type="button" onClick={() => handleOpen(document.id)} className="block">
+                {renderThumbnail(document, "w-full aspect-[3/4]")}
+              </button>
+              <div className="p-3 space-y-1 flex-1">{renderDetails(document)}</div>
+              <div className="px-2 pb-2">{renderActions(document)}</div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="divide-y divide-border">
+          {filtered.map((document) => (
+            <div key={document.id} className="flex items-center gap-3 py-3">
+              {renderThumbnail(document, "w-12 h-16 rounded shrink-0")}
+              <div className="min-w-0 flex-1">{renderDetails(document)}</div>
+              {renderActions(document)}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit document</DialogTitle>
+            <DialogDescription>Rename the document and tag it to keep your library organised.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="library-title">Title</Label>
+              <Input id="library-title" value={editTitle} onChange={(e) => setEditTitle(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="library-tags">Tags</Label>
+              <Input
+                id="library-tags"
+                value={editTags}
+                onChange={(e) => setEditTags(e.target.value)}
+                placeholder="biology, chapter 3"
+              />
+              <p className="text-xs text-muted-foreground">Separate tags with commas</p>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setEditing(null)} variant="outline">
+              Cancel
+            </Button>
+            <Button onClick={saveDetails}>Save</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
@@ -0,0 +1,140 @@
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import type { FilterSettings, ThresholdMethod } from "@/lib/filters";
+
+interface FilterControlsProps {
+  settings: FilterSettings;
+  onChange: (settings: FilterSettings) => void;
+}
+
+interface SliderRowProps {
+  label: string;
+  value: number;
+  display: string;
+  min: number;
+  max: number;
+  step: number;
+  onChange: (value: number) => void;
+}
+
+const SliderRow = ({ label, value, display, min, max, step, onChange }: SliderRowProps) => (
+  <div className="space-y-2">
+    <div className="flex items-center justify-between">
+      <Label className="text-sm font-medium">{label}</Label>
+      <span className="text-sm text-muted-foreground">{display}</span>
+    </div>
+    <Slider
+      value={[value]}
+      onValueChange={(v) => onChange(v[0])}
+      min={min}
+      max={max}
+      step={step}
+      className="w-full"
+    />
+  </div>
+);
+
+export const FilterControls = ({ settings, onChange }: FilterControlsProps) => {
+  const update = <K extends keyof FilterSettings>(key: K, value: FilterSettings[K]) =>
+    onChange({ ...settings, [key]: value });
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="filter-grayscale" className="text-sm font-medium">Grayscale</Label>
+          <Switch
+            id="filter-grayscale"
+            checked={settings.grayscale}
+            onCheckedChange={(checked) => update("grayscale", checked)}
+          />
+        </div>
+        <div className="flex items-center justify-between">
+          <Label htmlFor="filter-flatten" className="text-sm font-medium">Remove shadows</Label>
+          <Switch
+            id="filter-flatten"
+            checked={settings.flattenIllumination}
+            onCheckedChange={(checked) => update("flattenIllumination", checked)}
+          />
+        </div>
+      </div>
+
+      <SliderRow
+        label="Brightness"
+        value={settings.brightness}
+        display={`${settings.brightness > 0 ? "+" : ""}${settings.brightness}`}
+        min={-100}
+        max={100}
+        step={5}
+        onChange={(v) => update("brightness", v)}
+      />
+      <SliderRow
+        label="Contrast"
+        value={settings.contrast}
+        display={`${settings.contrast > 0 ? "+" : ""}${settings.contrast}`}
+        min={-100}
+        max={100}
+        step={5}
+        onChange={(v) => update("contrast", v)}
+      />
+      <SliderRow
+        label="Denoise"
+        value={settings.denoise}
+        display={settings.denoise === 0 ? "Off" : `${settings.denoise * 2 + 1}×${settings.denoise * 2 + 1} median`}
+        min={0}
+        max={2}
+        step={1}
+        onChange={(v) => update("denoise", v)}
+      />
+      <SliderRow
+        label="Sharpen"
+        value={settings.sharpen}
+        display={settings.sharpen === 0 ? "Off" : settings.sharpen.toFixed(1)}
+        min={0}
+        max={2}
+        step={0.1}
+        onChange={(v) => update("sharpen", v)}
+      />
+
+      <div className="flex items-center justify-between gap-2">
+        <Label className="text-sm font-medium">Black & white</Label>
+        <ToggleGroup
+          type="single"
+          size="sm"
+          variant="outline"
+          value={settings.threshold}
+          onValueChange={(value) => value && update("threshold", value as ThresholdMethod)}
+        >
+          <ToggleGroupItem value="none">Off</ToggleGroupItem>
+          <ToggleGroupItem value="otsu">Otsu</ToggleGroupItem>
+          <ToggleGroupItem value="sauvola">Sauvola</ToggleGroupItem>
+        </ToggleGroup>
+      </div>
+
+      {settings.threshold === "sauvola" && (
+        <>
+          <SliderRow
+            label="Window"
+            value={settings.sauvolaWindow}
+            display={`${settings.sauvolaWindow}px`}
+            min={15}
+            max={75}
+            step={2}
+            onChange={(v) => update("sauvolaWindow", v)}
+          />
+          <SliderRow
+            label="Sensitivity"
+            value={settings.sauvolaK}
+            display={settings.sauvolaK.toFixed(2)}
+            min={0.1}
+            max={0.5}
+            step={0.02}
+            onChange={(v) => update("sauvolaK", v)}
+          />
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,292 @@
+import { useEffect, useState } from "react";
+import {
+  ChevronLeft,
+  ChevronRight,
+  Shuffle,
+  Check,
+  X,
+  Pencil,
+  Trash2,
+  RotateCcw,
+} from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Carousel, CarouselContent, CarouselItem, type CarouselApi } from "@/components/ui/carousel";
+import { Progress } from "@/components/ui/progress";
+import { Textarea } from "@/components/ui/textarea";
+import type { Flashcard } from "@/lib/study-tools";
+
+type CardMark = "known" | "unknown";
+
+interface FlashcardPlayerProps {
+  cards: Flashcard[];
+  onChange: (cards: Flashcard[]) => void;
+}
+
+const shuffled = <T,>(items: T[]) => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+export const FlashcardPlayer = ({ cards, onChange }: FlashcardPlayerProps) => {
+  const [api, setApi] = useState<CarouselApi>();
+  const [current, setCurrent] = useState(0);
+  // Display order as card ids, so shuffling doesn't touch the deck itself
+  const [order, setOrder] = useState<string[]>(() => cards.map((card) => card.id));
+  const [flipped, setFlipped] = useState(false);
+  const [marks, setMarks] = useState<Record<string, CardMark>>({});
+  const [editing, setEditing] = useState<Flashcard | null>(null);
+
+  // Keep the order in step with added or deleted cards
+  useEffect(() => {
+    setOrder((prev) => {
+      const ids = new Set(cards.map((card) => card.id));
+      const kept = prev.filter((id) => ids.has(id));
+      const added = cards.filter((card) => !kept.includes(card.id)).map((card) => card.id);
+      return [...kept, ...added];
+    });
+  }, [cards]);
+
+  useEffect(() => {
+    if (!api) return;
+    const onSelect = () => {
+      setCurrent(api.selectedScrollSnap());
+      setFlipped(false);
+      setEditing(null);
+    };
+    onSelect();
+    api.on("select", onSelect);
+    api.on("reInit", onSelect);
+    return () => {
+      api.off("select", onSelect);
+      api.off("reInit", onSelect);
+    };
+  }, [api]);
+
+  const deck = order
+    .map((id) => cards.find((card) => card.id === id))
+    .filter((card): card is Flashcard => card !== undefined);
+  const card = deck[Math.min(current, deck.length - 1)];
+  const knownCount = deck.filter((c) => marks[c.id] === "known").length;
+  const markedCount = deck.filter((c) => marks[c.id]).length;
+
+  const mark = (value: CardMark) => {
+    if (!card) return;
+    setMarks((prev) => ({ ...prev, [card.id]: value }));
+    api?.scrollNext();
+  };
+
+  const shuffle = () => {
+    setOrder(shuffled(order));
+    api?.scrollTo(0, true);
+  };
+
+  // Another pass: cards not yet known move to the front and marks are cleared
+  const restartUnknown = () => {
+    const remaining = deck.filter((c) => marks[c.id] !== "known").map((c) => c.id);
+    setOrder([...remaining, ...order.filter((id) => !remaining.includes(id))]);
+    setMarks({});
+    api?.scrollTo(0, true);
+  };
+
+  const saveEdit = () => {
+    if (!editing || !editing.front.trim() || !editing.back.trim()) return;
+    const edited = { ...editing, front: editing.front.trim(), back: editing.back.trim() };
+    onChange(cards.map((c) => (c.id === edited.id ? edited : c)));
+    setEditing(null);
+  };
+
+  const deleteCard = () => {
+    if (!card) return;
+    onChange(cards.filter((c) => c.id !== card.id));
+    setEditing(null);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    // Typing in the editor shouldn't flip or mark cards
+    if (editing || e.target instanceof HTMLTextAreaElement) return;
+    // Leave browser and OS shortcuts like Ctrl+K or Alt+Left alone
+    if (e.ctrlKey || e.metaKey || e.altKey) return;
+
+    switch (e.key) {
+      case " ":
+      case "Enter":
+        // A focused button already acts on these keys, the card itself by flipping
+        if (e.target instanceof HTMLButtonElement) break;
+        e.preventDefault();
+        setFlipped((f) => !f);
+        break;
+      // The carousel handles arrows pressed inside it; only cover focus on the player itself
+      case "ArrowLeft":
+        if (e.defaultPrevented) break;
+        e.preventDefault();
+        api?.scrollPrev();
+        break;
+      case "ArrowRight":
+        if (e.defaultPrevented) break;
+        e.preventDefault();
+        api?.scrollNext();
+        break;
+      case "k":
+        mark("known");
+        break;
+      case "u":
+        mark("unknown");
+        break;
+      case "s":
+        shuffle();
+        break;
+      case "e":
+        if (card) setEditing(card);
+        break;
+    }
+  };
+
+  if (deck.length === 0) {
+    return <p className="text-sm text-muted-foreground">No flashcards left in this deck.</p>;
+  }
+
+  return (
+    <div
+      tabIndex={0}
+      onKeyDown={handleKeyDown}
+      className="space-y-4 outline-none focus-visible:ring-2 focus-visible:ring-ring rounded-md"
+    >
+      {/* Progress */}
+      <div className="space-y-1">
+        <div className="flex items-center justify-between text-xs text-muted-foreground">
+          <span>
+            Card {current + 1} of {deck.length}
+          </span>
+          <span>
+            {knownCount} known · {markedCount - knownCount} to review
+          </span>
+        </div>
+        <Progress value={(markedCount / deck.length) * 100} className="h-1.5" />
+      </div>
+
+      <Carousel setApi={setApi} opts={{ watchDrag: !editing }}>
+        <CarouselContent>
+          {deck.map((item, index) => {
+            const isFlipped = flipped && index === current;
+            return (
+              <CarouselItem key={item.id}>
+                {editing && index === current ? (
+                  <div className="space-y-2 min-h-[12rem]">
+                    <Textarea
+                      value={editing.front}
+                      onChange={(e) => setEditing({ ...editing, front: e.target.value })}
+                      placeholder="Front"
+                      className="min-h-[70px]"
+                      autoFocus
+                    />
+                    <Textarea
+                      value={editing.back}
+                      onChange={(e) => setEditing({ ...editing, back: e.target.value })}
+                      placeholder="Back"
+                      className="min-h-[70px]"
+                    />
+                    <div className="flex justify-end gap-2">
+                      <Button onClick={() => setEditing(null)} variant="ghost" size="sm">
+                        Cancel
+                      </Button>
+                      <Button onClick={saveEdit} size="sm">
+                        Save
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => index === current && setFlipped(!flipped)}
+                    className="relative block w-full h-48 [perspective:1000px]"
+                    aria-label={isFlipped ? "Show question" : "Show answer"}
+                  >
+                    <div
+                      className={`relative w-full h-full transition-transform duration-500 [transform-style:preserve-3d] ${
+                        isFlipped ? "[transform:rotateY(180deg)]" : ""
+                      }`}
+                    >
+                      <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 p-4 rounded-lg border-2 border-border bg-background [backface-visibility:hidden]">
+                        <p className="text-base font-medium text-foreground text-center">{item.front}</p>
+                        {marks[item.id] && (
+                          <Badge
+                            variant={marks[item.id] === "known" ? "secondary" : "outline"}
+                            className="absolute top-2 right-2 text-xs"
+                          >
+                            {marks[item.id] === "known" ? "Known" : "Review"}
+                          </Badge>
+                        )}
+                      </div>
+                      <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 p-4 rounded-lg border-2 border-primary bg-primary/5 overflow-y-auto [backface-visibility:hidden] [transform:rotateY(180deg)]">
+                        <p className="text-sm text-foreground text-center">{item.back}</p>
+                        {item.tags.length > 0 && (
+                          <div className="flex flex-wrap justify-center gap-1">
+                            {item.tags.map((tag) => (
+                              <Badge key={tag} variant="secondary" className="text-xs">
+                                {tag}
+                              </Badge>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  </button>
+                )}
+              </CarouselItem>
+            );
+          })}
+        </CarouselContent>
+      </Carousel>
+
+      {/* Controls */}
+      <div className="flex items-center justify-between gap-2">
+        <Button onClick={() => api?.scrollPrev()} variant="outline" size="icon" aria-label="Previous card">
+          <ChevronLeft className="w-4 h-4" />
+        </Button>
+        <div className="flex gap-2">
+          <Button onClick={() => mark("unknown")} variant="outline" size="sm" className="gap-1">
+            <X className="w-4 h-4" />
+            Still learning
+          </Button>
+          <Button onClick={() => mark("known")} size="sm" className="gap-1">
+            <Check className="w-4 h-4" />
+            Know it
+          </Button>
+        </div>
+        <Button onClick={() => api?.scrollNext()} variant="outline" size="icon" aria-label="Next card">
+          <ChevronRight className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-center gap-2">
+        <Button onClick={shuffle} variant="ghost" size="sm" className="gap-1">
+          <Shuffle className="w-4 h-4" />
+          Shuffle
+        </Button>
+        {markedCount > 0 && knownCount < deck.length && (
+          <Button onClick={restartUnknown} variant="ghost" size="sm" className="gap-1">
+            <RotateCcw className="w-4 h-4" />
+            Review unknown
+          </Button>
+        )}
+        <Button onClick={() => card && setEditing(card)} variant="ghost" size="sm" className="gap-1">
+          <Pencil className="w-4 h-4" />
+          Edit
+        </Button>
+        <Button onClick={deleteCard} variant="ghost" size="sm" className="gap-1 text-destructive hover:text-destructive">
+          <Trash2 className="w-4 h-4" />
+          Delete
+        </Button>
+      </div>
+
+      <p className="text-xs text-center text-muted-foreground">
+        Space to flip · ← → to move · K know it · U still learning · S shuffle · E edit
+      </p>
+    </div>
+  );
+};
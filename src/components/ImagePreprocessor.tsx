@@ -2,62 +2,183 @@ import { useState, useRef, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Slider } from "@/components/ui/slider";
-import { RotateCw, ZoomIn, Sparkles } from "lucide-react";
+import { RotateCw, ZoomIn, Sparkles, Crop, ScanLine, Loader2, Wand2 } from "lucide-react";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useToast } from "@/hooks/use-toast";
+import { useFilterWorker } from "@/hooks/use-filter-worker";
+import { DEFAULT_FILTER_SETTINGS, hasActiveFilters, type FilterSettings } from "@/lib/filters";
+import { detectDocumentQuad, fullQuad, warpPerspective, type Quad } from "@/lib/perspective";
+import { estimateDeskewAngle, rotatedSize } from "@/lib/deskew";
+import { dewarpPage, detectGutter, splitSpread } from "@/lib/dewarp";
+import { LanguageSelect } from "./LanguageSelect";
+import { CropEditor } from "./CropEditor";
+import { FilterControls } from "./FilterControls";
+
+// Live previews filter a downscaled copy; the full image is only filtered on Process
+const PREVIEW_MAX_SIDE = 1000;
+const PREVIEW_DEBOUNCE_MS = 150;
+// Flattening the full page is slow, so it waits until the settings stop changing
+const FLATTEN_DEBOUNCE_MS = 400;
+
+// Pixel-sized settings have to shrink with the preview so it matches the final result
+const scaleFilterSettings = (settings: FilterSettings, ratio: number): FilterSettings => ({
+  ...settings,
+  sauvolaWindow: Math.max(3, Math.round(settings.sauvolaWindow * ratio) | 1),
+  denoise: ratio < 0.5 ? Math.min(settings.denoise, 1) : settings.denoise,
+});
+
+const downscale = (source: HTMLCanvasElement, maxSide: number) => {
+  const ratio = Math.min(1, maxSide / Math.max(source.width, source.height));
+  if (ratio === 1) return source;
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(source.width * ratio);
+  canvas.height = Math.round(source.height * ratio);
+  canvas.getContext("2d")?.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
 
 interface ImagePreprocessorProps {
   image: string;
-  onProcess: (processedImage: string) => void;
+  language: string;
+  onLanguageChange: (language: string) => void;
+  /** Two images when a book spread was split into left and right pages */
+  onProcess: (processedImages: string[]) => void;
   onCancel: () => void;
+  /** Defaults to "Cancel" */
+  cancelLabel?: string;
 }
 
-export const ImagePreprocessor = ({ image, onProcess, onCancel }: ImagePreprocessorProps) => {
+export const ImagePreprocessor = ({
+  image,
+  language,
+  onLanguageChange,
+  onProcess,
+  onCancel,
+  cancelLabel = "Cancel",
+}: ImagePreprocessorProps) => {
+  // Geometry only (crop, rotation, scale); doubles as the "before" image
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const filteredCanvasRef = useRef<HTMLCanvasElement>(null);
   const [rotation, setRotation] = useState(0);
+  // Fine straightening on top of the 90° steps, in degrees
+  const [skew, setSkew] = useState(0);
   const [scale, setScale] = useState(1);
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+  const [isCropping, setIsCropping] = useState(false);
+  const [cropMode, setCropMode] = useState<"perspective" | "rectangle">("perspective");
+  const [draftQuad, setDraftQuad] = useState<Quad | null>(null);
+  const [appliedQuad, setAppliedQuad] = useState<Quad | null>(null);
   const imgRef = useRef<HTMLImageElement | null>(null);
+  // The flattened page once a crop is applied; later steps start from here
+  const croppedRef = useRef<HTMLCanvasElement | null>(null);
+  const [flatten, setFlatten] = useState(false);
+  const [flattenFailed, setFlattenFailed] = useState(false);
+  const [splitPages, setSplitPages] = useState(false);
+  // Spine position as a fraction of the width
+  const [gutter, setGutter] = useState(0.5);
+  const [filters, setFilters] = useState<FilterSettings>(DEFAULT_FILTER_SETTINGS);
+  const [geometryVersion, setGeometryVersion] = useState(0);
+  const [split, setSplit] = useState(50);
+  const [isFiltering, setIsFiltering] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const previewRequestRef = useRef(0);
+  // True while the canvas shows a flattened preview rather than the full result
+  const flattenPreviewRef = useRef(false);
+  const { applyFilters } = useFilterWorker();
+  const { toast } = useToast();
+  const filtersActive = hasActiveFilters(filters);
 
   useEffect(() => {
     const img = new Image();
     img.crossOrigin = "anonymous";
     img.onload = () => {
       imgRef.current = img;
-      applyFilters();
+      croppedRef.current = null;
+      setImageSize({ width: img.width, height: img.height });
+      renderTransforms();
     };
     img.src = image;
   }, [image]);
 
   useEffect(() => {
-    if (imgRef.current) {
-      applyFilters();
+    if (!imgRef.current) return;
+    if (!flatten) {
+      renderTransforms();
+      return;
     }
-  }, [rotation, scale]);
 
-  const applyFilters = () => {
+    renderTransforms({ preview: true });
+    const timer = setTimeout(() => renderTransforms(), FLATTEN_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [rotation, skew, scale, appliedQuad, flatten, splitPages, gutter]);
+
+  useEffect(() => {
+    if (!filtersActive || geometryVersion === 0) return;
+
+    const requestId = ++previewRequestRef.current;
+    const timer = setTimeout(async () => {
+      const source = canvasRef.current;
+      const target = filteredCanvasRef.current;
+      if (!source || !target || source.width === 0) return;
+
+      const ratio = Math.min(1, PREVIEW_MAX_SIDE / Math.max(source.width, source.height));
+      const preview = document.createElement("canvas");
+      preview.width = Math.round(source.width * ratio);
+      preview.height = Math.round(source.height * ratio);
+      const previewCtx = preview.getContext("2d");
+      if (!previewCtx) return;
+      previewCtx.drawImage(source, 0, 0, preview.width, preview.height);
+
+      setIsFiltering(true);
+      try {
+        const result = await applyFilters(
+          previewCtx.getImageData(0, 0, preview.width, preview.height),
+          scaleFilterSettings(filters, ratio)
+        );
+        // A newer change has already been queued; drop this stale frame
+        if (requestId !== previewRequestRef.current) return;
+        target.width = result.width;
+        target.height = result.height;
+        target.getContext("2d")?.putImageData(result, 0, 0);
+      } catch (error) {
+        console.error("Filter preview error:", error);
+      } finally {
+        if (requestId === previewRequestRef.current) setIsFiltering(false);
+      }
+    }, PREVIEW_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [filters, filtersActive, geometryVersion, applyFilters]);
+
+  const renderTransforms = ({ preview = false } = {}) => {
     const canvas = canvasRef.current;
-    const img = imgRef.current;
+    const img = croppedRef.current ?? imgRef.current;
     if (!canvas || !img) return;
 
     const ctx = canvas.getContext("2d");
     if (!ctx) return;
 
-    // Calculate canvas size based on rotation
-    const isRotated = rotation % 180 !== 0;
-    const width = isRotated ? img.height : img.width;
-    const height = isRotated ? img.width : img.height;
+    // Calculate canvas size based on rotation; any angle that isn't a
+    // right angle needs the bounding box of the rotated page
+    const angle = rotation + skew;
+    const { width, height } = rotatedSize(img.width, img.height, angle);
 
     canvas.width = width * scale;
     canvas.height = height * scale;
 
-    // Clear canvas
-    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    // Fill corners uncovered by rotation with white rather than transparent
+    // black, which Tesseract would read as a dark border
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
 
     // Save context state
     ctx.save();
 
     // Move to center for rotation
     ctx.translate(canvas.width / 2, canvas.height / 2);
-    ctx.rotate((rotation * Math.PI) / 180);
+    ctx.rotate((angle * Math.PI) / 180);
     ctx.scale(scale, scale);
 
     // Draw image centered
@@ -65,23 +186,189 @@ export const ImagePreprocessor = ({ image, onProcess, onCancel }: ImagePreproces
 
     // Restore context
     ctx.restore();
+
+    if (flatten) flattenBookPages(canvas, ctx, preview);
+    flattenPreviewRef.current = flatten && preview;
+    setGeometryVersion((v) => v + 1);
+  };
+
+  // Each half of a spread bows its own way, so they are flattened separately.
+  // A preview flattens a downscaled copy and stretches it back over the page.
+  const flattenBookPages = (canvas: HTMLCanvasElement, ctx: CanvasRenderingContext2D, preview: boolean) => {
+    let failed = false;
+    let crashed = false;
+
+    try {
+      const halves = splitPages ? splitSpread(canvas, gutter) : [canvas];
+      let offset = 0;
+      for (const half of halves) {
+        const flattened = dewarpPage(preview ? downscale(half, PREVIEW_MAX_SIDE) : half);
+        if (flattened) {
+          ctx.drawImage(flattened, offset, 0, half.width, half.height);
+        } else {
+          failed = true;
+        }
+        offset += half.width;
+      }
+    } catch (error) {
+      // The canvas still holds the page as it was before flattening
+      console.error("Flatten error:", error);
+      failed = true;
+      crashed = true;
+    }
+    // A small copy can lose lines the full page still has; let the full pass decide
+    if (!preview || crashed) setFlattenFailed(failed);
+  };
+
+  const handleSplitChange = (checked: boolean) => {
+    setSplitPages(checked);
+    const canvas = canvasRef.current;
+    if (checked && canvas) setGutter(detectGutter(canvas));
   };
 
   const handleRotate = () => {
     setRotation((prev) => (prev + 90) % 360);
   };
 
+  const handleAutoStraighten = () => {
+    const img = croppedRef.current ?? imgRef.current;
+    if (!img) return;
+
+    // Measure the page as it's shown after the 90° steps; text lines turned
+    // on their side have no horizontal profile to sharpen
+    const { width, height } = rotatedSize(img.width, img.height, rotation);
+    const rotated = document.createElement("canvas");
+    rotated.width = width;
+    rotated.height = height;
+    const ctx = rotated.getContext("2d");
+    if (!ctx) return;
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(0, 0, width, height);
+    ctx.translate(width / 2, height / 2);
+    ctx.rotate((rotation * Math.PI) / 180);
+    ctx.drawImage(img, -img.width / 2, -img.height / 2);
+
+    const angle = estimateDeskewAngle(rotated);
+    setSkew(angle);
+    toast({
+      title: angle === 0 ? "Page looks straight" : "Page straightened",
+      description: angle === 0
+        ? "No tilt detected in the text lines"
+        : `Rotated by ${angle > 0 ? "+" : ""}${angle.toFixed(1)}°`,
+    });
+  };
+
+  const startCropping = () => {
+    const img = imgRef.current;
+    if (!img) return;
+
+    // Start from the last crop, or from a detected page outline
+    setDraftQuad(appliedQuad ?? detectDocumentQuad(img) ?? fullQuad(img.width, img.height));
+    setIsCropping(true);
+  };
+
+  const handleDetectEdges = () => {
+    const img = imgRef.current;
+    if (!img) return;
+
+    const quad = detectDocumentQuad(img);
+    if (quad) {
+      setCropMode("perspective");
+      setDraftQuad(quad);
+    } else {
+      toast({
+        title: "No page edges found",
+        description: "Drag the corners onto the page by hand",
+      });
+    }
+  };
+
+  const handleCropModeChange = (mode: string) => {
+    if (mode !== "perspective" && mode !== "rectangle") return;
+    setCropMode(mode);
+
+    // Switching to a plain crop squares the current outline off to its bounds
+    if (mode === "rectangle" && draftQuad) {
+      const xs = draftQuad.map((p) => p.x);
+      const ys = draftQuad.map((p) => p.y);
+      setDraftQuad([
+        { x: Math.min(...xs), y: Math.min(...ys) },
+        { x: Math.max(...xs), y: Math.min(...ys) },
+        { x: Math.max(...xs), y: Math.max(...ys) },
+        { x: Math.min(...xs), y: Math.max(...ys) },
+      ]);
+    }
+  };
+
+  const applyCrop = () => {
+    const img = imgRef.current;
+    if (!img || !draftQuad) return;
+
+    try {
+      croppedRef.current = warpPerspective(img, draftQuad);
+      setAppliedQuad(draftQuad);
+      setIsCropping(false);
+    } catch (error) {
+      console.error("Crop error:", error);
+      toast({
+        title: "Crop failed",
+        description: "Could not straighten the page",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleReset = () => {
     setRotation(0);
+    setSkew(0);
     setScale(1);
+    croppedRef.current = null;
+    setAppliedQuad(null);
+    setDraftQuad(null);
+    setIsCropping(false);
+    setFlatten(false);
+    setSplitPages(false);
+    setGutter(0.5);
+    setFilters(DEFAULT_FILTER_SETTINGS);
   };
 
-  const handleProcess = () => {
+  const handleProcess = async () => {
     const canvas = canvasRef.current;
     if (!canvas) return;
-    
-    const processedImage = canvas.toDataURL("image/png");
-    onProcess(processedImage);
+    // Processed before the debounced full flatten ran
+    if (flattenPreviewRef.current) renderTransforms();
+
+    const pageCanvases = splitPages ? splitSpread(canvas, gutter) : [canvas];
+    if (!filtersActive) {
+      onProcess(pageCanvases.map((page) => page.toDataURL("image/png")));
+      return;
+    }
+
+    setIsExporting(true);
+    try {
+      const images: string[] = [];
+      for (const page of pageCanvases) {
+        const ctx = page.getContext("2d");
+        if (!ctx) return;
+        const result = await applyFilters(ctx.getImageData(0, 0, page.width, page.height), filters);
+
+        const output = document.createElement("canvas");
+        output.width = result.width;
+        output.height = result.height;
+        output.getContext("2d")?.putImageData(result, 0, 0);
+        images.push(output.toDataURL("image/png"));
+      }
+      onProcess(images);
+    } catch (error) {
+      console.error("Filter error:", error);
+      toast({
+        title: "Enhancement failed",
+        description: "Could not apply the filters to the full image",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
   };
 
   return (
@@ -98,60 +385,224 @@ export const ImagePreprocessor = ({ image, onProcess, onCancel }: ImagePreproces
 
       {/* Canvas Preview */}
       <div className="flex justify-center bg-muted/30 rounded-lg p-4 overflow-auto max-h-[400px]">
-        <canvas
-          ref={canvasRef}
-          className="max-w-full h-auto border border-border rounded shadow-lg"
-        />
+        {isCropping && draftQuad && imageSize && (
+          <CropEditor
+            image={image}
+            width={imageSize.width}
+            height={imageSize.height}
+            quad={draftQuad}
+            mode={cropMode}
+            onChange={setDraftQuad}
+          />
+        )}
+        <div className={`relative inline-block max-w-full ${isCropping ? "hidden" : ""}`}>
+          <canvas
+            ref={canvasRef}
+            className="block max-w-full h-auto border border-border rounded shadow-lg"
+          />
+          {filtersActive && (
+            <>
+              <canvas
+                ref={filteredCanvasRef}
+                className="absolute inset-0 w-full h-full rounded"
+                style={{ clipPath: `inset(0 0 0 ${split}%)` }}
+              />
+              <div
+                className="absolute inset-y-0 w-0.5 bg-primary pointer-events-none"
+                style={{ left: `${split}%` }}
+              />
+              <span className="absolute top-2 left-2 px-1.5 rounded bg-background/80 text-xs">Before</span>
+              <span className="absolute top-2 right-2 px-1.5 rounded bg-background/80 text-xs">After</span>
+              {isFiltering && (
+                <Loader2 className="absolute bottom-2 right-2 w-4 h-4 text-primary animate-spin" />
+              )}
+            </>
+          )}
+          {splitPages && (
+            <div
+              className="absolute inset-y-0 border-l-2 border-dashed border-destructive pointer-events-none"
+              style={{ left: `${gutter * 100}%` }}
+            />
+          )}
+        </div>
       </div>
 
-      {/* Controls */}
-      <div className="space-y-4">
-        {/* Rotation */}
-        <div className="flex items-center justify-between">
-          <Label className="text-sm font-medium">Rotation</Label>
-          <Button
-            onClick={handleRotate}
-            variant="outline"
-            size="sm"
-            className="gap-2"
-          >
-            <RotateCw className="w-4 h-4" />
-            Rotate 90°
-          </Button>
-        </div>
+      {filtersActive && !isCropping && (
+        <Slider
+          value={[split]}
+          onValueChange={(value) => setSplit(value[0])}
+          min={0}
+          max={100}
+          step={1}
+          className="w-full"
+        />
+      )}
 
-        {/* Scale */}
-        <div className="space-y-2">
-          <div className="flex items-center justify-between">
-            <Label className="text-sm font-medium">
-              <ZoomIn className="w-4 h-4 inline mr-1" />
-              Scale
-            </Label>
-            <span className="text-sm text-muted-foreground">{scale.toFixed(1)}x</span>
+      {isCropping ? (
+        <div className="space-y-4">
+          <div className="flex items-center justify-between gap-2">
+            <ToggleGroup
+              type="single"
+              size="sm"
+              variant="outline"
+              value={cropMode}
+              onValueChange={handleCropModeChange}
+            >
+              <ToggleGroupItem value="perspective">Four corners</ToggleGroupItem>
+              <ToggleGroupItem value="rectangle">Rectangle</ToggleGroupItem>
+            </ToggleGroup>
+            <Button onClick={handleDetectEdges} variant="outline" size="sm" className="gap-2">
+              <ScanLine className="w-4 h-4" />
+              Detect Page
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Drag the corners onto the edges of the page. It will be flattened to a rectangle.
+          </p>
+          <div className="flex gap-3">
+            <Button onClick={() => setIsCropping(false)} variant="outline" className="flex-1">
+              Cancel Crop
+            </Button>
+            <Button onClick={applyCrop} className="flex-1">
+              Apply Crop
+            </Button>
           </div>
-          <Slider
-            value={[scale]}
-            onValueChange={(value) => setScale(value[0])}
-            min={0.5}
-            max={2}
-            step={0.1}
-            className="w-full"
-          />
         </div>
-      </div>
+      ) : (
+        <>
+          {/* Controls */}
+          <div className="space-y-4">
+            {/* OCR Language */}
+            <LanguageSelect value={language} onChange={onLanguageChange} />
 
-      {/* Action Buttons */}
-      <div className="flex gap-3 pt-2">
-        <Button onClick={handleReset} variant="outline" className="flex-1">
-          Reset
-        </Button>
-        <Button onClick={onCancel} variant="outline" className="flex-1">
-          Cancel
-        </Button>
-        <Button onClick={handleProcess} className="flex-1">
-          Process OCR
-        </Button>
-      </div>
+            {/* Crop & Perspective */}
+            <div className="flex items-center justify-between">
+              <Label className="text-sm font-medium">Crop & Perspective</Label>
+              <Button
+                onClick={startCropping}
+                variant="outline"
+                size="sm"
+                className="gap-2"
+              >
+                <Crop className="w-4 h-4" />
+                {appliedQuad ? "Edit Crop" : "Crop Page"}
+              </Button>
+            </div>
+
+            {/* Rotation */}
+            <div className="flex items-center justify-between">
+              <Label className="text-sm font-medium">Rotation</Label>
+              <Button
+                onClick={handleRotate}
+                variant="outline"
+                size="sm"
+                className="gap-2"
+              >
+                <RotateCw className="w-4 h-4" />
+                Rotate 90°
+              </Button>
+            </div>
+
+            {/* Straighten */}
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label className="text-sm font-medium">Straighten</Label>
+                <div className="flex items-center gap-2">
+                  <span className="text-sm text-muted-foreground">
+                    {skew > 0 ? "+" : ""}{skew.toFixed(1)}°
+                  </span>
+                  <Button
+                    onClick={handleAutoStraighten}
+                    variant="outline"
+                    size="sm"
+                    className="gap-2"
+                  >
+                    <Wand2 className="w-4 h-4" />
+                    Auto
+                  </Button>
+                </div>
+              </div>
+              <Slider
+                value={[skew]}
+                onValueChange={(value) => setSkew(value[0])}
+                min={-45}
+                max={45}
+                step={0.1}
+                className="w-full"
+              />
+            </div>
+
+            {/* Book Pages */}
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="book-flatten" className="text-sm font-medium">Flatten curved page</Label>
+                <Switch id="book-flatten" checked={flatten} onCheckedChange={setFlatten} />
+              </div>
+              {flatten && flattenFailed && (
+                <p className="text-xs text-muted-foreground">
+                  Not enough lines of text to trace the curve{splitPages ? " on one of the pages" : ""}
+                </p>
+              )}
+              <div className="flex items-center justify-between">
+                <Label htmlFor="book-split" className="text-sm font-medium">Split two-page spread</Label>
+                <Switch id="book-split" checked={splitPages} onCheckedChange={handleSplitChange} />
+              </div>
+              {splitPages && (
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label className="text-sm font-medium">Spine position</Label>
+                    <span className="text-sm text-muted-foreground">{Math.round(gutter * 100)}%</span>
+                  </div>
+                  <Slider
+                    value={[gutter * 100]}
+                    onValueChange={(value) => setGutter(value[0] / 100)}
+                    min={20}
+                    max={80}
+                    step={0.5}
+                    className="w-full"
+                  />
+                </div>
+              )}
+            </div>
+
+            {/* Filters */}
+            <FilterControls settings={filters} onChange={setFilters} />
+
+            {/* Scale */}
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label className="text-sm font-medium">
+                  <ZoomIn className="w-4 h-4 inline mr-1" />
+                  Scale
+                </Label>
+                <span className="text-sm text-muted-foreground">{scale.toFixed(1)}x</span>
+              </div>
+              <Slider
+                value={[scale]}
+                onValueChange={(value) => setScale(value[0])}
+                min={0.5}
+                max={2}
+                step={0.1}
+                className="w-full"
+              />
+            </div>
+          </div>
+
+          {/* Action Buttons */}
+          <div className="flex gap-3 pt-2">
+            <Button onClick={handleReset} variant="outline" className="flex-1">
+              Reset
+            </Button>
+            <Button onClick={onCancel} variant="outline" className="flex-1">
+              {cancelLabel}
+            </Button>
+            <Button onClick={handleProcess} disabled={isExporting} className="flex-1">
+              {isExporting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Process OCR
+            </Button>
+          </div>
+        </>
+      )}
     </Card>
   );
 };
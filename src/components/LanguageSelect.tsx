@@ -0,0 +1,59 @@
+import { Languages } from "lucide-react";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AUTO_LANGUAGE, OCR_LANGUAGES } from "@/lib/ocr";
+
+interface LanguageSelectProps {
+  value: string;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+}
+
+export const LanguageSelect = ({ value, onChange, disabled }: LanguageSelectProps) => {
+  const single = OCR_LANGUAGES.filter((lang) => !lang.code.includes("+"));
+  const combos = OCR_LANGUAGES.filter((lang) => lang.code.includes("+"));
+
+  return (
+    <div className="flex items-center justify-between gap-4">
+      <Label className="text-sm font-medium whitespace-nowrap">
+        <Languages className="w-4 h-4 inline mr-1" />
+        Language
+      </Label>
+      <Select value={value} onValueChange={onChange} disabled={disabled}>
+        <SelectTrigger className="w-56">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={AUTO_LANGUAGE}>Auto-detect</SelectItem>
+          <SelectSeparator />
+          <SelectGroup>
+            <SelectLabel>Single language</SelectLabel>
+            {single.map((lang) => (
+              <SelectItem key={lang.code} value={lang.code}>
+                {lang.label}
+              </SelectItem>
+            ))}
+          </SelectGroup>
+          <SelectSeparator />
+          <SelectGroup>
+            <SelectLabel>Mixed languages</SelectLabel>
+            {combos.map((lang) => (
+              <SelectItem key={lang.code} value={lang.code}>
+                {lang.label}
+              </SelectItem>
+            ))}
+          </SelectGroup>
+        </SelectContent>
+      </Select>
+    </div>
+  );
+};
@@ -1,65 +1,198 @@
-import { useState, useCallback } from "react";
-import { Upload, Loader2, Copy, CheckCircle2, Camera, Download, MessageSquare, Send, BookOpen, Brain, FileText, HelpCircle } from "lucide-react";
+import { useState, useCallback, useEffect, useRef } from "react";
+import { Upload, Loader2, Copy, CheckCircle2, Camera, Download, MessageSquare, Send, BookOpen, Brain, FileText, HelpCircle, ChevronLeft, ChevronRight, Plus, Play, Square, BookmarkPlus, Library } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
 import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { useToast } from "@/hooks/use-toast";
-import Tesseract from "tesseract.js";
+import { useScanDocument } from "@/hooks/use-scan-document";
+import { useStudyDecks } from "@/hooks/use-study-decks";
+import { useDocumentLibrary } from "@/hooks/use-document-library";
 import { ImagePreprocessor } from "./ImagePreprocessor";
+import { DiscardWorkDialog } from "./DiscardWorkDialog";
 import { CameraCapture } from "./CameraCapture";
-import { jsPDF } from "jspdf";
-import { supabase } from "@/integrations/supabase/client";
+import { ConfidenceText } from "./ConfidenceText";
+import { FlashcardPlayer } from "./FlashcardPlayer";
+import { QuizRunner } from "./QuizRunner";
+import { PageThumbnails } from "./PageThumbnails";
+import { SourceImageView, type LineHighlight } from "./SourceImageView";
+import { AUTO_LANGUAGE, blocksToText, correctWord } from "@/lib/ocr";
+import { documentLanguage, documentText, readFileAsDataUrl, type NewPage } from "@/lib/document";
+import { DEFAULT_PDF_DPI, PDF_DPI_OPTIONS, importPdf, isPdfFile } from "@/lib/pdf";
+import { exportSearchablePdf, exportTextPdf, type PdfSection } from "@/lib/pdf-export";
+import type { LibraryDocument } from "@/lib/library-store";
+import type { SearchLocation } from "@/lib/search";
+import {
+  STUDY_MATERIAL_TITLES,
+  flashcardsToText,
+  isAbortError,
+  quizToText,
+  requestStructuredStudyTool,
+  streamStudyTool,
+  type AIProviderInfo,
+  type Flashcard,
+  type QAPair,
+  type QuizQuestion,
+  type StructuredStudyResult,
+  type StudyAction,
+  type StudyTool,
+} from "@/lib/study-tools";
 
-interface QAPair {
-  question: string;
-  answer: string;
-  timestamp: number;
+type StudyFeature = StudyTool | null;
+
+interface StructuredMaterials {
+  flashcards: Flashcard[] | null;
+  quiz: QuizQuestion[] | null;
+}
+
+interface OCRUploadProps {
+  /** A library document to carry on working with */
+  initialDocument?: LibraryDocument;
+  /** A search match to show: its page and line, or its study material */
+  initialLocation?: SearchLocation;
+  /** Called with true while there are pages that aren't in the library */
+  onUnsavedWorkChange?: (unsaved: boolean) => void;
 }
 
-type StudyFeature = 'lesson' | 'flashcards' | 'summarize' | 'quiz' | null;
+const studyDeckFor = (tool: StudyTool, { flashcards, quiz }: StructuredMaterials): StructuredStudyResult | null =>
+  tool === "flashcards" && flashcards ? { flashcards } : tool === "quiz" && quiz ? { quiz } : null;
 
-export const OCRUpload = () => {
-  const [image, setImage] = useState<string | null>(null);
-  const [extractedText, setExtractedText] = useState<string>("");
-  const [isProcessing, setIsProcessing] = useState(false);
-  const [progress, setProgress] = useState(0);
+export const OCRUpload = ({ initialDocument, initialLocation, onUnsavedWorkChange }: OCRUploadProps) => {
+  const initialPage = initialLocation?.kind === "page" ? initialLocation : null;
+  const initialTool = initialLocation?.kind === "material" ? initialLocation.tool : null;
+  const initialQa = initialLocation?.kind === "qa" ? initialLocation.timestamp : null;
+  const initialQaRef = useRef<HTMLDivElement>(null);
+
+  const {
+    pages,
+    isProcessing,
+    addPages,
+    updatePage,
+    removePage,
+    movePage,
+    clearPages,
+    processPages,
+  } = useScanDocument(initialDocument?.pages);
+  const [activePageId, setActivePageId] = useState<string | null>(initialPage?.pageId ?? null);
+  const [preprocessingPageId, setPreprocessingPageId] = useState<string | null>(null);
+  // Photos from a camera session still waiting for the enhance step, after
+  // the one being enhanced; null when not working through a session
+  const [cameraQueue, setCameraQueue] = useState<string[] | null>(null);
+  const [lineHighlight, setLineHighlight] = useState<LineHighlight | null>(
+    initialPage?.lineId ? { lineId: initialPage.lineId, source: "text" } : null
+  );
+  const [language, setLanguage] = useState<string>(AUTO_LANGUAGE);
+  const [pdfDpi, setPdfDpi] = useState(DEFAULT_PDF_DPI);
+  const [importStatus, setImportStatus] = useState<string | null>(null);
   const [copied, setCopied] = useState(false);
   const [isDragging, setIsDragging] = useState(false);
-  const [showPreprocessor, setShowPreprocessor] = useState(false);
   const [showCamera, setShowCamera] = useState(false);
   const [question, setQuestion] = useState("");
-  const [qaHistory, setQaHistory] = useState<QAPair[]>([]);
+  const [qaHistory, setQaHistory] = useState<QAPair[]>(initialDocument?.qaHistory ?? []);
   const [isAnswering, setIsAnswering] = useState(false);
-  const [activeFeature, setActiveFeature] = useState<StudyFeature>(null);
-  const [studyResult, setStudyResult] = useState<string>("");
+  const [activeFeature, setActiveFeature] = useState<StudyFeature>(initialTool);
+  const [studyResult, setStudyResult] = useState<string>(
+    (initialTool && initialDocument?.studyMaterials[initialTool]) ?? ""
+  );
+  // Flashcards and quizzes as typed objects; studyResult holds their text form
+  const [studyDeck, setStudyDeck] = useState<StructuredStudyResult | null>(() =>
+    initialTool && initialDocument
+      ? studyDeckFor(initialTool, { flashcards: initialDocument.flashcards, quiz: initialDocument.quiz })
+      : null
+  );
+  // Set once the current flashcards are saved for spaced-repetition review
+  const [savedDeckId, setSavedDeckId] = useState<string | null>(null);
+  // Latest result of each study tool, kept so exports can include them
+  const [studyMaterials, setStudyMaterials] = useState<Partial<Record<StudyTool, string>>>(
+    initialDocument?.studyMaterials ?? {}
+  );
+  // Latest flashcards and quiz as objects, so the library can reopen them
+  const [structuredMaterials, setStructuredMaterials] = useState<StructuredMaterials>({
+    flashcards: initialDocument?.flashcards ?? null,
+    quiz: initialDocument?.quiz ?? null,
+  });
+  // Set once the document is in the library; later changes are saved automatically
+  const [libraryId, setLibraryId] = useState<string | null>(initialDocument?.id ?? null);
+  // State the library copy was last saved from, so opening a document isn't counted as an edit
+  const librarySnapshotRef = useRef<unknown[] | null>(null);
+  // An autosave still waiting on its timer, run right away if the uploader unmounts
+  const pendingSaveRef = useRef<(() => void) | null>(null);
+  const [confirmingReset, setConfirmingReset] = useState(false);
+  const [pdfExtras, setPdfExtras] = useState<StudyTool[]>([]);
   const [isGenerating, setIsGenerating] = useState(false);
+  // Lets the Stop button cancel whichever AI request is streaming
+  const aiRequestRef = useRef<AbortController | null>(null);
+  const [aiProvider, setAIProvider] = useState<AIProviderInfo | null>(null);
   const { toast } = useToast();
+  const { createDeck, setDeckCards, recordQuizAttempt } = useStudyDecks();
+  const { saveDocument } = useDocumentLibrary();
 
-  const callAIStudyTool = useCallback(async (
-    text: string,
-    action: 'qa' | 'lesson' | 'flashcards' | 'summarize' | 'quiz',
-    question?: string
-  ): Promise<string> => {
-    try {
-      const { data, error } = await supabase.functions.invoke('ai-study-tools', {
-        body: { text, action, question }
-      });
+  // Study tools, Q&A and exports all work on the whole document
+  const extractedText = documentText(pages);
+  const ocrLanguage = documentLanguage(pages);
+  const activePage = pages.find((page) => page.id === activePageId) ?? pages[0];
+  const activeIndex = activePage ? pages.indexOf(activePage) : -1;
+  const preprocessingPage = pages.find((page) => page.id === preprocessingPageId);
+  const processingPage = pages.find((page) => page.status === "processing");
+  const hasUnprocessedPages = pages.some((page) => page.status !== "done");
 
-      if (error) throw error;
-      if (!data?.result) throw new Error('No response from AI');
+  const runAIRequest = useCallback(async <T,>(run: (signal: AbortSignal) => Promise<T>): Promise<T> => {
+    const controller = new AbortController();
+    aiRequestRef.current = controller;
 
-      return data.result;
+    try {
+      return await run(controller.signal);
     } catch (error) {
+      // Stopping isn't a failure; callers keep what has streamed so far
+      if (isAbortError(error)) throw error;
       console.error('AI Study Tool Error:', error);
       throw new Error('Failed to process with AI');
+    } finally {
+      if (aiRequestRef.current === controller) aiRequestRef.current = null;
     }
   }, []);
 
+  const callAIStudyTool = useCallback((
+    text: string,
+    action: StudyAction,
+    onText: (partial: string) => void,
+    question?: string
+  ): Promise<string> =>
+    runAIRequest(async (signal) => {
+      const result = await streamStudyTool(
+        { text, action, question, language: ocrLanguage },
+        { onText, onMeta: setAIProvider, signal }
+      );
+      if (!result) throw new Error('No response from AI');
+
+      return result;
+    }), [ocrLanguage, runAIRequest]);
+
+  const callStructuredStudyTool = useCallback((text: string, action: 'flashcards' | 'quiz') =>
+    runAIRequest((signal) =>
+      requestStructuredStudyTool(
+        { text, action, language: ocrLanguage },
+        { onMeta: setAIProvider, signal }
+      )
+    ), [ocrLanguage, runAIRequest]);
+
+  const stopAIRequest = () => {
+    aiRequestRef.current?.abort();
+  };
+
   const processOCR = useCallback(
-    async (imageDataUrl: string) => {
-      setIsProcessing(true);
-      setProgress(0);
-      setShowPreprocessor(false);
+    async (pageIds?: string[]) => {
+      setLineHighlight(null);
 
       // 🤖 AI ENHANCEMENT POINT #0: Pre-processing with AI
       // Before OCR, optionally use AI to enhance image quality:
@@ -68,66 +201,93 @@ export const OCRUpload = () => {
       // - Detect and crop to text regions
       // Example: const enhancedImage = await callAI({ task: "enhance-image", image: imageDataUrl });
 
-      try {
-        const result = await Tesseract.recognize(imageDataUrl, "eng", {
-          logger: (m) => {
-            if (m.status === "recognizing text") {
-              setProgress(Math.round(m.progress * 100));
-            }
-          },
-        });
+      const summary = await processPages(language, pageIds);
+      // Another run already picked these pages up and will report on them
+      if (!summary) return;
 
-        setExtractedText(result.data.text);
-        setImage(null); // Clear image after processing
-        
-        // 🤖 AI ENHANCEMENT POINT #1: Post-OCR Text Processing
-        // After extracting text, call AI to:
-        // - Fix OCR errors and improve accuracy
-        // - Format and structure the text better
-        // - Remove noise and artifacts from extraction
-        // Example: const improvedText = await callAI({ task: "clean", text: result.data.text });
-        
-        toast({
-          title: "Text extracted successfully!",
-          description: "Your text is ready to copy or use",
-        });
-      } catch (error) {
-        console.error("OCR Error:", error);
+      // 🤖 AI ENHANCEMENT POINT #1: Post-OCR Text Processing
+      // After extracting text, call AI to:
+      // - Fix OCR errors and improve accuracy
+      // - Format and structure the text better
+      // - Remove noise and artifacts from extraction
+      // Example: const improvedText = await callAI({ task: "clean", text: page.text });
+
+      if (summary.failed > 0) {
         toast({
           title: "Extraction failed",
-          description: "Could not extract text from the image",
+          description: `Could not extract text from ${summary.failed} ${summary.failed === 1 ? "page" : "pages"}`,
           variant: "destructive",
         });
-      } finally {
-        setIsProcessing(false);
-        setProgress(0);
+      } else if (summary.processed > 0) {
+        toast({
+          title: "Text extracted successfully!",
+          description: summary.processed === 1
+            ? "Your text is ready to copy or use"
+            : `${summary.processed} pages are ready to copy or use`,
+        });
       }
     },
-    [toast]
+    [language, processPages, toast]
   );
 
   const handleImageUpload = useCallback(
-    async (file: File) => {
-      if (!file.type.startsWith("image/")) {
+    async (files: File[]) => {
+      const accepted = files.filter((file) => file.type.startsWith("image/") || isPdfFile(file));
+
+      if (accepted.length < files.length) {
         toast({
           title: "Invalid file type",
-          description: "Please upload an image file",
+          description: "Please upload image or PDF files only",
           variant: "destructive",
         });
-        return;
       }
+      if (accepted.length === 0) return;
+
+      try {
+        const newPages: NewPage[] = [];
 
-      const reader = new FileReader();
-      reader.onload = async (e) => {
-        const imageDataUrl = e.target?.result as string;
-        setImage(imageDataUrl);
-        setExtractedText("");
-        setShowPreprocessor(true);
-      };
+        // Keep the order the files were picked in, expanding each PDF in place
+        for (const file of accepted) {
+          if (isPdfFile(file)) {
+            const pdfPages = await importPdf(file, pdfDpi, (page, total) =>
+              setImportStatus(`Rendering ${file.name}: page ${page} of ${total}`)
+            );
+            newPages.push(...pdfPages);
+          } else {
+            newPages.push({ name: file.name, image: await readFileAsDataUrl(file) });
+          }
+        }
+
+        const isFirstUpload = pages.length === 0;
+        const added = addPages(newPages);
+        if (added.length === 0) return;
+
+        setActivePageId(added[0].id);
+        // A single photo goes straight to enhancement, as before; batches
+        // land in the page grid so they can be ordered first.
+        if (isFirstUpload && added.length === 1 && added[0].status === "pending") {
+          setPreprocessingPageId(added[0].id);
+        }
 
-      reader.readAsDataURL(file);
+        const textLayerPages = added.filter((page) => page.status === "done").length;
+        if (textLayerPages > 0) {
+          toast({
+            title: "Embedded text found",
+            description: `${textLayerPages} PDF ${textLayerPages === 1 ? "page already has" : "pages already have"} a text layer and will skip OCR`,
+          });
+        }
+      } catch (error) {
+        console.error("File import error:", error);
+        toast({
+          title: "Upload failed",
+          description: "Could not read the selected files",
+          variant: "destructive",
+        });
+      } finally {
+        setImportStatus(null);
+      }
     },
-    [toast]
+    [addPages, pages.length, pdfDpi, toast]
   );
 
   const handleDrop = useCallback(
@@ -135,10 +295,10 @@ export const OCRUpload = () => {
       e.preventDefault();
       e.stopPropagation();
       setIsDragging(false);
-      const file = e.dataTransfer.files[0];
-      if (file) {
-        console.log("File dropped:", file.name);
-        handleImageUpload(file);
+      const files = Array.from(e.dataTransfer.files);
+      if (files.length > 0) {
+        console.log("Files dropped:", files.map((file) => file.name));
+        handleImageUpload(files);
       }
     },
     [handleImageUpload]
@@ -152,7 +312,9 @@ export const OCRUpload = () => {
   const handleDragEnter = useCallback((e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
     e.stopPropagation();
-    setIsDragging(true);
+    if (e.dataTransfer.types.includes("Files")) {
+      setIsDragging(true);
+    }
   }, []);
 
   const handleDragLeave = useCallback((e: React.DragEvent<HTMLDivElement>) => {
@@ -163,11 +325,13 @@ export const OCRUpload = () => {
 
   const handleFileInput = useCallback(
     (e: React.ChangeEvent<HTMLInputElement>) => {
-      const file = e.target.files?.[0];
-      if (file) {
-        console.log("File selected:", file.name);
-        handleImageUpload(file);
+      const files = Array.from(e.target.files ?? []);
+      if (files.length > 0) {
+        console.log("Files selected:", files.map((file) => file.name));
+        handleImageUpload(files);
       }
+      // Allow picking the same files again after a reset
+      e.target.value = "";
     },
     [handleImageUpload]
   );
@@ -205,35 +369,98 @@ export const OCRUpload = () => {
     });
   };
 
-  const saveAsPdf = () => {
-    const doc = new jsPDF();
-    const pageWidth = doc.internal.pageSize.getWidth();
-    const margin = 15;
-    const maxWidth = pageWidth - 2 * margin;
-    
-    // Split text into lines that fit the page width
-    const lines = doc.splitTextToSize(extractedText, maxWidth);
-    
-    doc.setFontSize(12);
-    doc.text(lines, margin, margin);
-    doc.save(`extracted-text-${Date.now()}.pdf`);
-    
-    toast({
-      title: "Saved as PDF!",
-      description: "File has been downloaded successfully",
-    });
+  const saveAsPdf = async () => {
+    const sections: PdfSection[] = [
+      { title: "Extracted Text", body: extractedText, reflow: true },
+      ...(Object.keys(STUDY_MATERIAL_TITLES) as StudyTool[])
+        .filter((tool) => pdfExtras.includes(tool) && studyMaterials[tool])
+        .map((tool) => ({ title: STUDY_MATERIAL_TITLES[tool], body: studyMaterials[tool] })),
+    ];
+
+    try {
+      await exportTextPdf("Extracted Text", sections, `extracted-text-${Date.now()}.pdf`);
+      toast({
+        title: "Saved as PDF!",
+        description: "File has been downloaded successfully",
+      });
+    } catch (error) {
+      console.error("PDF export error:", error);
+      toast({
+        title: "Export failed",
+        description: "Could not build the PDF",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const saveAsSearchablePdf = async () => {
+    try {
+      await exportSearchablePdf(pages, `searchable-scan-${Date.now()}.pdf`);
+      toast({
+        title: "Saved as searchable PDF!",
+        description: "The scan keeps its look and its text can be searched and selected",
+      });
+    } catch (error) {
+      console.error("Searchable PDF export error:", error);
+      toast({
+        title: "Export failed",
+        description: "Could not build the searchable PDF",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Moves on to the next photo of a camera session, if any
+  const nextPreprocessingPage = () => {
+    const [next, ...rest] = (cameraQueue ?? []).filter((id) => pages.some((page) => page.id === id));
+    setPreprocessingPageId(next ?? null);
+    setCameraQueue(next ? rest : null);
+  };
+
+  const handlePreprocessorProcess = ([processedImage, ...splitImages]: string[]) => {
+    const id = preprocessingPageId;
+    nextPreprocessingPage();
+    const index = pages.findIndex((page) => page.id === id);
+    if (index < 0) return;
+
+    updatePage(id, { processed: processedImage });
+
+    // A split spread keeps the left page here and adds the right one after it
+    const added = addPages(
+      splitImages.map((image) => ({ name: `${pages[index].name} (right)`, image })),
+      index + 1
+    );
+    setActivePageId(id);
+    processOCR([id, ...added.map((page) => page.id)]);
   };
 
   const handlePreprocessorCancel = () => {
-    setShowPreprocessor(false);
-    setImage(null);
+    // In a camera session, skipping a photo keeps it as taken
+    if (cameraQueue) {
+      const id = preprocessingPageId;
+      nextPreprocessingPage();
+      if (id) processOCR([id]);
+      return;
+    }
+    // Cancelling the very first photo backs out of the document entirely
+    if (pages.length === 1 && pages[0].status !== "done") {
+      clearPages();
+    }
+    setPreprocessingPageId(null);
   };
 
-  const handleCameraCapture = (imageDataUrl: string) => {
-    setImage(imageDataUrl);
-    setExtractedText("");
+  const handleCameraCapture = (images: string[]) => {
+    const added = addPages(
+      images.map((image, i) => ({ name: `Photo ${pages.length + i + 1}`, image }))
+    );
     setShowCamera(false);
-    setShowPreprocessor(true);
+    if (added.length === 0) return;
+    setActivePageId(added[0].id);
+
+    // Every photo gets the crop and enhance step; in a session each page is
+    // read as soon as it's done, while the next one is being enhanced
+    setPreprocessingPageId(added[0].id);
+    setCameraQueue(added.length > 1 ? added.slice(1).map((page) => page.id) : null);
   };
 
   const handleCameraCancel = () => {
@@ -244,15 +471,48 @@ export const OCRUpload = () => {
     setShowCamera(true);
   };
 
+  const handleRemovePage = (id: string) => {
+    removePage(id);
+    if (activePageId === id) {
+      setActivePageId(null);
+    }
+  };
+
   const resetUpload = () => {
-    setImage(null);
-    setExtractedText("");
-    setShowPreprocessor(false);
+    setConfirmingReset(false);
+    // Edits to a library document still waiting on the autosave timer
+    pendingSaveRef.current?.();
+    stopAIRequest();
+    clearPages();
+    setActivePageId(null);
+    setPreprocessingPageId(null);
+    setCameraQueue(null);
+    setLineHighlight(null);
     setShowCamera(false);
     setQuestion("");
     setQaHistory([]);
     setActiveFeature(null);
     setStudyResult("");
+    setStudyDeck(null);
+    setSavedDeckId(null);
+    setStudyMaterials({});
+    setStructuredMaterials({ flashcards: null, quiz: null });
+    setPdfExtras([]);
+    setLibraryId(null);
+  };
+
+  const handleStartNew = () => {
+    if (hasUnsavedWork) {
+      setConfirmingReset(true);
+    } else {
+      resetUpload();
+    }
+  };
+
+  const handleCorrectWord = (wordId: string, text: string) => {
+    if (!activePage) return;
+    const corrected = correctWord(activePage.blocks, wordId, text);
+    updatePage(activePage.id, { blocks: corrected, text: blocksToText(corrected) });
   };
 
   const handleAskQuestion = async () => {
@@ -278,16 +538,12 @@ export const OCRUpload = () => {
     setQuestion("");
 
     try {
-      const aiAnswer = await callAIStudyTool(extractedText, 'qa', userQuestion);
+      const setAnswer = (answer: string) =>
+        setQaHistory((prev) =>
+          prev.map((qa) => (qa.timestamp === newQAPair.timestamp ? { ...qa, answer } : qa))
+        );
 
-      setQaHistory(prev => {
-        const updatedHistory = [...prev];
-        const indexToUpdate = updatedHistory.findIndex(qa => qa.timestamp === newQAPair.timestamp);
-        if (indexToUpdate !== -1) {
-          updatedHistory[indexToUpdate].answer = aiAnswer;
-        }
-        return updatedHistory;
-      });
+      setAnswer(await callAIStudyTool(extractedText, 'qa', setAnswer, userQuestion));
       
       toast({
         title: "Answer generated!",
@@ -295,6 +551,15 @@ export const OCRUpload = () => {
       });
 
     } catch (error: any) {
+      if (isAbortError(error)) {
+        // Keep a partial answer, drop the question if nothing came back yet
+        setQaHistory((prev) =>
+          prev
+            .filter((qa) => qa.timestamp !== newQAPair.timestamp || qa.answer !== newQAPair.answer)
+            .map((qa) => (qa.timestamp === newQAPair.timestamp ? { ...qa, answer: `${qa.answer} [stopped]` } : qa))
+        );
+        return;
+      }
       console.error("Question answering error:", error);
       setQaHistory((prev) => prev.filter(q => q.timestamp !== newQAPair.timestamp));
       toast({
@@ -320,16 +585,37 @@ export const OCRUpload = () => {
     setIsGenerating(true);
     setActiveFeature(feature);
     setStudyResult("");
+    setStudyDeck(null);
+    setSavedDeckId(null);
+    // What has streamed in so far, for deciding what to keep if stopped
+    let streamed = "";
 
     try {
-      const result = await callAIStudyTool(extractedText, feature);
+      let result: string;
+      if (feature === 'flashcards' || feature === 'quiz') {
+        const deck = await callStructuredStudyTool(extractedText, feature);
+        result = 'flashcards' in deck ? flashcardsToText(deck.flashcards) : quizToText(deck.quiz);
+        setStudyDeck(deck);
+        setStructuredMaterials((prev) => ({ ...prev, ...deck }));
+      } else {
+        result = await callAIStudyTool(extractedText, feature, (partial) => {
+          streamed = partial;
+          setStudyResult(partial);
+        });
+      }
       setStudyResult(result);
+      setStudyMaterials((prev) => ({ ...prev, [feature]: result }));
       
       toast({
         title: "Generated successfully!",
         description: `Your ${feature} is ready`,
       });
     } catch (error: any) {
+      if (isAbortError(error)) {
+        // Leave the partial result on screen, but only keep finished ones for export
+        if (!streamed) setActiveFeature(null);
+        return;
+      }
       console.error(`${feature} generation error:`, error);
       setActiveFeature(null);
       toast({
@@ -342,6 +628,94 @@ export const OCRUpload = () => {
     }
   };
 
+  // Edits made in the player carry through to copies and PDF exports
+  const handleFlashcardsChange = (cards: Flashcard[]) => {
+    const text = flashcardsToText(cards);
+    setStudyDeck({ flashcards: cards });
+    setStudyResult(text);
+    setStudyMaterials((prev) => ({ ...prev, flashcards: text }));
+    setStructuredMaterials((prev) => ({ ...prev, flashcards: cards }));
+    if (savedDeckId) setDeckCards(savedDeckId, cards);
+  };
+
+  // Reopens material generated earlier, e.g. in a document from the library
+  const openStudyMaterial = (tool: StudyTool) => {
+    setActiveFeature(tool);
+    setStudyResult(studyMaterials[tool] ?? "");
+    setStudyDeck(studyDeckFor(tool, structuredMaterials));
+    setSavedDeckId(null);
+  };
+
+  const handleSaveToLibrary = async () => {
+    try {
+      const summary = await saveDocument({ pages, qaHistory, studyMaterials, ...structuredMaterials });
+      if (!summary) return;
+      librarySnapshotRef.current = [pages, qaHistory, studyMaterials, structuredMaterials];
+      setLibraryId(summary.id);
+      toast({
+        title: "Saved to library",
+        description: "Further changes to this document are saved automatically",
+      });
+    } catch (error) {
+      console.error("Library save error:", error);
+      toast({
+        title: "Could not save to library",
+        description: error instanceof Error ? error.message : "Your browser may be out of storage space",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Autosave library documents once OCR settles
+  useEffect(() => {
+    pendingSaveRef.current = null;
+    const snapshot = [pages, qaHistory, studyMaterials, structuredMaterials];
+    const previous = librarySnapshotRef.current;
+    if (!previous) {
+      librarySnapshotRef.current = snapshot;
+      return;
+    }
+    if (!libraryId || isProcessing || snapshot.every((value, i) => value === previous[i])) return;
+
+    const save = () => {
+      pendingSaveRef.current = null;
+      saveDocument({ id: libraryId, pages, qaHistory, studyMaterials, ...structuredMaterials })
+        .then((summary) => {
+          librarySnapshotRef.current = snapshot;
+          // Deleted from the library while open
+          if (!summary) setLibraryId(null);
+        })
+        .catch((error) => console.error("Library autosave error:", error));
+    };
+    pendingSaveRef.current = save;
+    const timer = setTimeout(save, 1000);
+    return () => clearTimeout(timer);
+  }, [libraryId, isProcessing, pages, qaHistory, studyMaterials, structuredMaterials, saveDocument]);
+
+  // Opening another document remounts the uploader; don't lose the last edits
+  useEffect(() => () => pendingSaveRef.current?.(), []);
+
+  // Opened from a search match in the Q&A history
+  useEffect(() => {
+    initialQaRef.current?.scrollIntoView({ block: "nearest", behavior: "smooth" });
+  }, []);
+
+  const hasUnsavedWork = pages.length > 0 && !libraryId;
+  useEffect(() => {
+    onUnsavedWorkChange?.(hasUnsavedWork);
+  }, [hasUnsavedWork, onUnsavedWorkChange]);
+
+  const handleSaveDeck = () => {
+    if (!studyDeck || !("flashcards" in studyDeck)) return;
+    const title = pages[0]?.name || `Flashcards ${new Date().toLocaleDateString()}`;
+    const deck = createDeck(title, studyDeck.flashcards);
+    setSavedDeckId(deck.id);
+    toast({
+      title: "Deck saved",
+      description: `${deck.cards.length} cards are ready to review in Study Decks`,
+    });
+  };
+
   return (
     <div className="grid lg:grid-cols-2 gap-6 w-full max-w-7xl mx-auto">
       {/* Upload Area */}
@@ -359,49 +733,123 @@ export const OCRUpload = () => {
           onDragLeave={handleDragLeave}
           className="flex flex-col items-center justify-center min-h-[400px] space-y-6"
         >
-          {showCamera ? (
+          <input
+            id="file-upload"
+            type="file"
+            accept="image/*,application/pdf"
+            multiple
+            className="hidden"
+            onChange={handleFileInput}
+          />
+          {importStatus ? (
+            <div className="flex flex-col items-center space-y-4">
+              <Loader2 className="w-12 h-12 text-primary animate-spin" />
+              <p className="text-muted-foreground text-center">{importStatus}</p>
+            </div>
+          ) : showCamera ? (
             <CameraCapture
               onCapture={handleCameraCapture}
               onCancel={handleCameraCancel}
             />
-          ) : showPreprocessor && image ? (
+          ) : preprocessingPage ? (
             <ImagePreprocessor
-              image={image}
-              onProcess={processOCR}
+              key={preprocessingPage.id}
+              image={preprocessingPage.original}
+              language={language}
+              onLanguageChange={setLanguage}
+              onProcess={handlePreprocessorProcess}
               onCancel={handlePreprocessorCancel}
+              cancelLabel={cameraQueue ? "Use as taken" : undefined}
             />
-          ) : !image ? (
+          ) : pages.length === 0 ? (
             <>
               <div className="w-20 h-20 rounded-full bg-primary/10 flex items-center justify-center">
                 <Upload className="w-10 h-10 text-primary" />
               </div>
               <div className="text-center space-y-2">
                 <h3 className="text-2xl font-semibold text-foreground">
-                  {isDragging ? "Drop Your Image Here" : "Upload Your Image"}
+                  {isDragging ? "Drop Your Images Here" : "Upload Your Images"}
                 </h3>
                 <p className="text-muted-foreground max-w-sm">
-                  Drag and drop an image of text, handwritten notes, or a book page
+                  Drag and drop images or PDFs of text, handwritten notes, or book pages
                 </p>
               </div>
-              <input
-                id="file-upload"
-                type="file"
-                accept="image/*"
-                className="hidden"
-                onChange={handleFileInput}
-              />
               <div className="flex gap-3">
                 <Button onClick={triggerFileInput} size="lg">
                   <Upload className="w-4 h-4 mr-2" />
-                  Choose File
+                  Choose Files
                 </Button>
                 <Button onClick={openCamera} size="lg" variant="outline">
                   <Camera className="w-4 h-4 mr-2" />
                   Take Photo
                 </Button>
               </div>
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <span>PDF scan quality</span>
+                <Select value={String(pdfDpi)} onValueChange={(value) => setPdfDpi(Number(value))}>
+                  <SelectTrigger className="w-28 h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PDF_DPI_OPTIONS.map((dpi) => (
+                      <SelectItem key={dpi} value={String(dpi)}>
+                        {dpi} DPI
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
             </>
-          ) : null}
+          ) : (
+            <div className="w-full space-y-4 self-stretch">
+              <div className="flex items-center justify-between gap-2">
+                <h3 className="text-xl font-semibold text-foreground">
+                  {isDragging ? "Drop to Add Pages" : `Document · ${pages.length} ${pages.length === 1 ? "page" : "pages"}`}
+                </h3>
+                <div className="flex gap-2">
+                  <Button onClick={triggerFileInput} variant="outline" size="sm" className="gap-2">
+                    <Plus className="w-4 h-4" />
+                    Add
+                  </Button>
+                  <Button onClick={openCamera} variant="outline" size="sm" className="gap-2">
+                    <Camera className="w-4 h-4" />
+                    Photo
+                  </Button>
+                  <Button
+                    onClick={() => processOCR()}
+                    disabled={isProcessing || !hasUnprocessedPages}
+                    size="sm"
+                    className="gap-2"
+                  >
+                    {isProcessing ? (
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                    ) : (
+                      <Play className="w-4 h-4" />
+                    )}
+                    Process All
+                  </Button>
+                </div>
+              </div>
+
+              <PageThumbnails
+                pages={pages}
+                activePageId={activePage?.id ?? null}
+                onSelect={setActivePageId}
+                onMove={movePage}
+                onRemove={handleRemovePage}
+                onEnhance={setPreprocessingPageId}
+              />
+
+              {activePage?.status === "done" && activePage.blocks.length > 0 && (
+                <SourceImageView
+                  image={activePage.processed ?? activePage.original}
+                  blocks={activePage.blocks}
+                  highlight={lineHighlight}
+                  onHighlightChange={setLineHighlight}
+                />
+              )}
+            </div>
+          )}
         </div>
       </Card>
 
@@ -409,9 +857,14 @@ export const OCRUpload = () => {
       <Card className="p-8 bg-gradient-to-b from-card to-card/50">
         <div className="flex flex-col min-h-[400px]">
           <div className="flex items-center justify-between mb-4">
-            <h3 className="text-2xl font-semibold text-foreground">
-              Extracted Text
-            </h3>
+            <div className="flex items-center gap-2">
+              <h3 className="text-2xl font-semibold text-foreground">
+                Extracted Text
+              </h3>
+              {ocrLanguage && extractedText && !isProcessing && (
+                <Badge variant="secondary">{ocrLanguage}</Badge>
+              )}
+            </div>
             {extractedText && !isProcessing && (
               <div className="flex gap-2">
                 <Button
@@ -441,41 +894,119 @@ export const OCRUpload = () => {
                   <Download className="w-4 h-4" />
                   TXT
                 </Button>
-                <Button
-                  onClick={saveAsPdf}
-                  variant="outline"
-                  size="sm"
-                  className="gap-2"
-                >
-                  <Download className="w-4 h-4" />
-                  PDF
-                </Button>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="gap-2"
+                    >
+                      <Download className="w-4 h-4" />
+                      PDF
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem onClick={saveAsPdf}>
+                      Text document
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={saveAsSearchablePdf}>
+                      Searchable scan
+                    </DropdownMenuItem>
+                    {Object.keys(studyMaterials).length > 0 && (
+                      <>
+                        <DropdownMenuSeparator />
+                        <DropdownMenuLabel className="text-xs text-muted-foreground font-normal">
+                          Include in text document
+                        </DropdownMenuLabel>
+                        {(Object.keys(STUDY_MATERIAL_TITLES) as StudyTool[])
+                          .filter((tool) => studyMaterials[tool])
+                          .map((tool) => (
+                            <DropdownMenuCheckboxItem
+                              key={tool}
+                              checked={pdfExtras.includes(tool)}
+                              onSelect={(e) => e.preventDefault()}
+                              onCheckedChange={(checked) =>
+                                setPdfExtras((prev) =>
+                                  checked ? [...prev, tool] : prev.filter((t) => t !== tool)
+                                )
+                              }
+                            >
+                              {STUDY_MATERIAL_TITLES[tool]}
+                            </DropdownMenuCheckboxItem>
+                          ))}
+                      </>
+                    )}
+                  </DropdownMenuContent>
+                </DropdownMenu>
               </div>
             )}
           </div>
 
-          {isProcessing ? (
+          {processingPage && activePage?.status !== "done" ? (
             <div className="flex-1 flex flex-col items-center justify-center space-y-4">
               <Loader2 className="w-12 h-12 text-primary animate-spin" />
-              <p className="text-muted-foreground">Processing image...</p>
+              <p className="text-muted-foreground">
+                {pages.length > 1 && `Page ${pages.indexOf(processingPage) + 1} of ${pages.length}: `}
+                {processingPage.progressStatus ? `${processingPage.progressStatus}...` : "Processing image..."}
+              </p>
               <div className="w-full max-w-xs">
                 <div className="h-2 bg-muted rounded-full overflow-hidden">
                   <div
                     className="h-full bg-primary transition-all duration-300"
-                    style={{ width: `${progress}%` }}
+                    style={{ width: `${processingPage.progress}%` }}
                   />
                 </div>
                 <p className="text-center text-sm text-muted-foreground mt-2">
-                  {progress}%
+                  {processingPage.progress}%
                 </p>
               </div>
             </div>
           ) : extractedText ? (
             <>
+              {pages.length > 1 && activePage && (
+                <div className="flex items-center justify-between mb-2">
+                  <Button
+                    onClick={() => setActivePageId(pages[activeIndex - 1].id)}
+                    disabled={activeIndex <= 0}
+                    variant="ghost"
+                    size="sm"
+                  >
+                    <ChevronLeft className="w-4 h-4" />
+                  </Button>
+                  <span className="text-sm text-muted-foreground">
+                    Page {activeIndex + 1} of {pages.length}
+                  </span>
+                  <Button
+                    onClick={() => setActivePageId(pages[activeIndex + 1].id)}
+                    disabled={activeIndex >= pages.length - 1}
+                    variant="ghost"
+                    size="sm"
+                  >
+                    <ChevronRight className="w-4 h-4" />
+                  </Button>
+                </div>
+              )}
+
               <div className="flex-1 p-4 bg-muted/30 rounded-lg overflow-auto">
-                <pre className="whitespace-pre-wrap text-sm text-foreground font-mono">
-                  {extractedText}
-                </pre>
+                {activePage?.status !== "done" ? (
+                  <p className="text-sm text-muted-foreground text-center">
+                    {activePage?.status === "error"
+                      ? "Text could not be extracted from this page. Enhance it and try again."
+                      : "This page has not been processed yet."}
+                  </p>
+                ) : activePage.blocks.length > 0 ? (
+                  <ConfidenceText
+                    blocks={activePage.blocks}
+                    image={activePage.processed ?? activePage.original}
+                    onCorrectWord={handleCorrectWord}
+                    highlight={lineHighlight}
+                    onHighlightChange={setLineHighlight}
+                  />
+                ) : (
+                  <pre className="whitespace-pre-wrap text-sm text-foreground font-mono">
+                    {activePage.text}
+                  </pre>
+                )}
               </div>
               
               {/* Q&A Section - RAG Ready */}
@@ -489,7 +1020,11 @@ export const OCRUpload = () => {
                 {qaHistory.length > 0 && (
                   <div className="space-y-3 max-h-60 overflow-y-auto p-3 bg-muted/20 rounded-lg">
                     {qaHistory.map((qa, index) => (
-                      <div key={qa.timestamp} className="space-y-2">
+                      <div
+                        key={qa.timestamp}
+                        ref={qa.timestamp === initialQa ? initialQaRef : undefined}
+                        className={`space-y-2 ${qa.timestamp === initialQa ? "rounded-md bg-primary/10 p-2" : ""}`}
+                      >
                         <div className="flex items-start gap-2">
                           <div className="w-6 h-6 rounded-full bg-primary/10 flex items-center justify-center flex-shrink-0 mt-0.5">
                             <MessageSquare className="w-3 h-3 text-primary" />
@@ -522,21 +1057,29 @@ export const OCRUpload = () => {
                     }}
                     disabled={isAnswering}
                   />
-                  <Button
-                    onClick={handleAskQuestion}
-                    disabled={isAnswering || !question.trim()}
-                    className="self-end"
-                  >
-                    {isAnswering ? (
-                      <Loader2 className="w-4 h-4 animate-spin" />
-                    ) : (
+                  {isAnswering ? (
+                    <Button
+                      onClick={stopAIRequest}
+                      variant="outline"
+                      className="self-end"
+                      aria-label="Stop answering"
+                    >
+                      <Square className="w-4 h-4" />
+                    </Button>
+                  ) : (
+                    <Button
+                      onClick={handleAskQuestion}
+                      disabled={!question.trim()}
+                      className="self-end"
+                    >
                       <Send className="w-4 h-4" />
-                    )}
-                  </Button>
+                    </Button>
+                  )}
                 </div>
 
                 <p className="text-xs text-muted-foreground">
                   ✨ Powered by AI - Ask questions about the extracted text
+                  {aiProvider && ` (${aiProvider.provider}: ${aiProvider.model})`}
                 </p>
               </div>
 
@@ -547,6 +1090,20 @@ export const OCRUpload = () => {
                   <h4 className="font-semibold">AI Study Tools</h4>
                 </div>
 
+                {/* Previously generated material */}
+                {!activeFeature && Object.keys(studyMaterials).length > 0 && (
+                  <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+                    <span>Saved:</span>
+                    {(Object.keys(STUDY_MATERIAL_TITLES) as StudyTool[])
+                      .filter((tool) => studyMaterials[tool])
+                      .map((tool) => (
+                        <Button key={tool} onClick={() => openStudyMaterial(tool)} variant="secondary" size="sm">
+                          {STUDY_MATERIAL_TITLES[tool]}
+                        </Button>
+                      ))}
+                  </div>
+                )}
+
                 <div className="grid grid-cols-2 gap-2">
                   <Button
                     onClick={() => handleStudyFeature('lesson')}
@@ -593,50 +1150,97 @@ export const OCRUpload = () => {
                       <h5 className="font-semibold text-foreground capitalize">
                         {activeFeature === 'flashcards' ? 'Flashcards' : activeFeature}
                       </h5>
-                      {!isGenerating && (
-                        <Button
-                          onClick={() => {
-                            setActiveFeature(null);
-                            setStudyResult("");
-                          }}
-                          variant="ghost"
-                          size="sm"
-                        >
-                          Close
+                      {isGenerating ? (
+                        <Button onClick={stopAIRequest} variant="outline" size="sm" className="gap-2">
+                          <Square className="w-3 h-3" />
+                          Stop
                         </Button>
+                      ) : (
+                        <div className="flex gap-2">
+                          {studyDeck && "flashcards" in studyDeck && (
+                            <Button
+                              onClick={handleSaveDeck}
+                              disabled={!!savedDeckId}
+                              variant="outline"
+                              size="sm"
+                              className="gap-2"
+                            >
+                              <BookmarkPlus className="w-4 h-4" />
+                              {savedDeckId ? "Saved" : "Save deck"}
+                            </Button>
+                          )}
+                          <Button
+                            onClick={() => {
+                              setActiveFeature(null);
+                              setStudyResult("");
+                              setStudyDeck(null);
+                              setSavedDeckId(null);
+                            }}
+                            variant="ghost"
+                            size="sm"
+                          >
+                            Close
+                          </Button>
+                        </div>
                       )}
                     </div>
                     
-                    {isGenerating ? (
-                      <div className="flex items-center gap-2 text-muted-foreground">
-                        <Loader2 className="w-4 h-4 animate-spin" />
-                        <p className="text-sm">Generating...</p>
-                      </div>
-                    ) : studyResult ? (
+                    {studyDeck && "flashcards" in studyDeck ? (
+                      <FlashcardPlayer cards={studyDeck.flashcards} onChange={handleFlashcardsChange} />
+                    ) : studyDeck && "quiz" in studyDeck ? (
+                      <QuizRunner
+                        questions={studyDeck.quiz}
+                        onFinish={(results, isRetry) =>
+                          recordQuizAttempt({ title: pages[0]?.name || "Untitled document", isRetry, results })
+                        }
+                      />
+                    ) : studyResult && (
                       <div className="max-h-96 overflow-y-auto">
                         <pre className="whitespace-pre-wrap text-sm text-foreground">
                           {studyResult}
                         </pre>
                       </div>
-                    ) : null}
+                    )}
+                    {isGenerating && (
+                      <div className="flex items-center gap-2 text-muted-foreground">
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                        <p className="text-sm">Generating...</p>
+                      </div>
+                    )}
                   </div>
                 )}
               </div>
               
               <div className="mt-4 flex gap-3">
-                <Button onClick={resetUpload} variant="outline" className="flex-1">
+                <Button onClick={handleStartNew} variant="outline" className="flex-1">
                   <Upload className="w-4 h-4 mr-2" />
-                  Extract Another Image
+                  Start New Document
+                </Button>
+                <Button onClick={handleSaveToLibrary} disabled={!!libraryId} variant="outline" className="flex-1">
+                  <Library className="w-4 h-4 mr-2" />
+                  {libraryId ? "Saved in Library" : "Save to Library"}
                 </Button>
               </div>
             </>
           ) : (
             <div className="flex-1 flex items-center justify-center text-muted-foreground text-center">
-              <p>Upload an image to extract text</p>
+              <p>
+                {pages.length > 0
+                  ? "Process your pages to extract text"
+                  : "Upload an image to extract text"}
+              </p>
             </div>
           )}
         </div>
       </Card>
+
+      <DiscardWorkDialog
+        open={confirmingReset}
+        onOpenChange={setConfirmingReset}
+        consequence="Starting a new document will clear them."
+        confirmLabel="Discard and start new"
+        onConfirm={resetUpload}
+      />
     </div>
   );
 };
@@ -0,0 +1,143 @@
+import { useState } from "react";
+import { AlertCircle, CheckCircle2, ChevronLeft, ChevronRight, Loader2, Sparkles, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { pageImage, type DocumentPage } from "@/lib/document";
+import { cn } from "@/lib/utils";
+
+interface PageThumbnailsProps {
+  pages: DocumentPage[];
+  activePageId: string | null;
+  onSelect: (id: string) => void;
+  onMove: (from: number, to: number) => void;
+  onRemove: (id: string) => void;
+  onEnhance: (id: string) => void;
+}
+
+const PAGE_DRAG_TYPE = "application/x-document-page";
+
+export const PageThumbnails = ({
+  pages,
+  activePageId,
+  onSelect,
+  onMove,
+  onRemove,
+  onEnhance,
+}: PageThumbnailsProps) => {
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  // Page drags are told apart from file drops on the surrounding upload
+  // area by their custom type, and never bubble up to it.
+  const isPageDrag = (e: React.DragEvent) => e.dataTransfer.types.includes(PAGE_DRAG_TYPE);
+
+  return (
+    <div className="grid grid-cols-3 sm:grid-cols-4 gap-3 w-full">
+      {pages.map((page, index) => (
+        <div
+          key={page.id}
+          draggable
+          onDragStart={(e) => {
+            e.dataTransfer.setData(PAGE_DRAG_TYPE, String(index));
+            e.dataTransfer.effectAllowed = "move";
+          }}
+          onDragOver={(e) => {
+            if (!isPageDrag(e)) return;
+            e.preventDefault();
+            e.stopPropagation();
+            setDropIndex(index);
+          }}
+          onDragLeave={() => setDropIndex(null)}
+          onDrop={(e) => {
+            if (!isPageDrag(e)) return;
+            e.preventDefault();
+            e.stopPropagation();
+            setDropIndex(null);
+            onMove(Number(e.dataTransfer.getData(PAGE_DRAG_TYPE)), index);
+          }}
+          onClick={() => onSelect(page.id)}
+          className={cn(
+            "group relative rounded-lg border-2 bg-muted/30 overflow-hidden cursor-pointer transition-all",
+            activePageId === page.id ? "border-primary" : "border-border hover:border-primary/50",
+            dropIndex === index && "ring-2 ring-primary ring-offset-2"
+          )}
+        >
+          <img
+            src={pageImage(page)}
+            alt={page.name}
+            className="w-full aspect-[3/4] object-cover"
+          />
+
+          <div className="absolute top-1 left-1 px-1.5 rounded bg-background/90 text-xs font-medium text-foreground">
+            {index + 1}
+          </div>
+
+          <div className="absolute top-1 right-1">
+            {page.status === "done" && <CheckCircle2 className="w-4 h-4 text-primary" />}
+            {page.status === "processing" && <Loader2 className="w-4 h-4 text-primary animate-spin" />}
+            {page.status === "error" && <AlertCircle className="w-4 h-4 text-destructive" />}
+          </div>
+
+          {(page.status === "processing" || page.progressStatus === "Queued") && (
+            <div className="absolute bottom-0 inset-x-0 p-1.5 bg-background/90 space-y-1">
+              <p className="text-[10px] text-muted-foreground truncate">
+                {page.progressStatus || "Starting"} {page.status === "processing" && `${page.progress}%`}
+              </p>
+              <Progress value={page.progress} className="h-1" />
+            </div>
+          )}
+
+          {page.status !== "processing" && (
+            <div className="absolute bottom-0 inset-x-0 flex justify-between p-1 bg-background/90 opacity-0 group-hover:opacity-100 transition-opacity">
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                disabled={index === 0}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onMove(index, index - 1);
+                }}
+              >
+                <ChevronLeft className="h-3 w-3" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onEnhance(page.id);
+                }}
+              >
+                <Sparkles className="h-3 w-3" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 text-destructive"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onRemove(page.id);
+                }}
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                disabled={index === pages.length - 1}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onMove(index, index + 1);
+                }}
+              >
+                <ChevronRight className="h-3 w-3" />
+              </Button>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
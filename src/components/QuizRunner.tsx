@@ -0,0 +1,190 @@
+import { useState } from "react";
+import { CheckCircle2, RotateCcw, XCircle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import type { QuizAttempt } from "@/lib/deck-store";
+import type { QuizQuestion } from "@/lib/study-tools";
+
+interface QuizRunnerProps {
+  questions: QuizQuestion[];
+  /** Called when a round ends, with one result per question asked */
+  onFinish?: (results: QuizAttempt["results"], isRetry: boolean) => void;
+}
+
+const optionLetter = (index: number) => String.fromCharCode(65 + index);
+
+export const QuizRunner = ({ questions, onFinish }: QuizRunnerProps) => {
+  // Indices into `questions` for this attempt, so a retry can ask a subset
+  const [round, setRound] = useState<number[]>(() => questions.map((_, i) => i));
+  const [position, setPosition] = useState(0);
+  // Chosen option per question index; checked answers can't be changed
+  const [answers, setAnswers] = useState<Record<number, number>>({});
+  const [selected, setSelected] = useState<string>("");
+  const [checked, setChecked] = useState(false);
+
+  const finished = position >= round.length;
+  const questionIndex = round[position];
+  const question = questions[questionIndex];
+  const correctCount = round.filter((i) => answers[i] === questions[i].correctIndex).length;
+  const missed = round.filter((i) => answers[i] !== questions[i].correctIndex);
+
+  const start = (indices: number[]) => {
+    setRound(indices);
+    setPosition(0);
+    setAnswers({});
+    setSelected("");
+    setChecked(false);
+  };
+
+  const checkAnswer = () => {
+    if (selected === "") return;
+    setAnswers((prev) => ({ ...prev, [questionIndex]: Number(selected) }));
+    setChecked(true);
+  };
+
+  const next = () => {
+    if (position + 1 === round.length) {
+      onFinish?.(
+        round.map((i) => ({ difficulty: questions[i].difficulty, correct: answers[i] === questions[i].correctIndex })),
+        round.length < questions.length
+      );
+    }
+    setPosition((p) => p + 1);
+    setSelected("");
+    setChecked(false);
+  };
+
+  if (finished) {
+    const percent = Math.round((correctCount / round.length) * 100);
+    return (
+      <div className="space-y-4">
+        <Card className="p-4 text-center space-y-1">
+          <p className="text-3xl font-bold text-foreground">{percent}%</p>
+          <p className="text-sm text-muted-foreground">
+            {correctCount} of {round.length} correct
+          </p>
+        </Card>
+
+        {/* Answer review */}
+        <div className="max-h-80 overflow-y-auto space-y-3">
+          {round.map((i, n) => {
+            const q = questions[i];
+            const isCorrect = answers[i] === q.correctIndex;
+            return (
+              <div key={i} className="space-y-1 text-sm">
+                <div className="flex items-start gap-2">
+                  {isCorrect ? (
+                    <CheckCircle2 className="w-4 h-4 mt-0.5 shrink-0 text-green-600" />
+                  ) : (
+                    <XCircle className="w-4 h-4 mt-0.5 shrink-0 text-destructive" />
+                  )}
+                  <p className="font-medium text-foreground">
+                    {n + 1}. {q.stem}
+                  </p>
+                </div>
+                <p className="pl-6 text-muted-foreground">
+                  {!isCorrect && answers[i] !== undefined && (
+                    <>
+                      Your answer: {optionLetter(answers[i])}) {q.options[answers[i]]}
+                      <br />
+                    </>
+                  )}
+                  Correct: {optionLetter(q.correctIndex)}) {q.options[q.correctIndex]}
+                </p>
+                {q.explanation && <p className="pl-6 text-xs text-muted-foreground">{q.explanation}</p>}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {missed.length > 0 && (
+            <Button onClick={() => start(missed)} className="gap-2">
+              <RotateCcw className="w-4 h-4" />
+              Retry {missed.length} missed
+            </Button>
+          )}
+          <Button onClick={() => start(questions.map((_, i) => i))} variant="outline">
+            Start over
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const chosen = answers[questionIndex];
+
+  return (
+    <div className="space-y-4">
+      {/* Progress */}
+      <div className="space-y-1">
+        <div className="flex items-center justify-between text-xs text-muted-foreground">
+          <span>
+            Question {position + 1} of {round.length}
+          </span>
+          <span>{correctCount} correct so far</span>
+        </div>
+        <Progress value={(position / round.length) * 100} className="h-1.5" />
+      </div>
+
+      <Card className="p-4 space-y-4">
+        <div className="flex items-start justify-between gap-2">
+          <p className="text-sm font-medium text-foreground">{question.stem}</p>
+          <Badge variant="outline" className="text-xs capitalize shrink-0">
+            {question.difficulty}
+          </Badge>
+        </div>
+
+        <RadioGroup value={selected} onValueChange={setSelected} disabled={checked}>
+          {question.options.map((option, j) => {
+            const id = `quiz-${questionIndex}-${j}`;
+            const highlight = checked
+              ? j === question.correctIndex
+                ? "border-green-600 bg-green-500/10"
+                : j === chosen
+                  ? "border-destructive bg-destructive/10"
+                  : "border-border"
+              : "border-border hover:bg-muted/50";
+            return (
+              <Label
+                key={j}
+                htmlFor={id}
+                className={`flex items-center gap-3 p-3 rounded-md border font-normal cursor-pointer ${highlight}`}
+              >
+                <RadioGroupItem value={String(j)} id={id} />
+                <span>
+                  {optionLetter(j)}) {option}
+                </span>
+              </Label>
+            );
+          })}
+        </RadioGroup>
+
+        {checked && (
+          <div className="space-y-1 text-sm">
+            <p className={`font-medium ${chosen === question.correctIndex ? "text-green-600" : "text-destructive"}`}>
+              {chosen === question.correctIndex
+                ? "Correct!"
+                : `Not quite. The answer is ${optionLetter(question.correctIndex)}.`}
+            </p>
+            {question.explanation && <p className="text-muted-foreground">{question.explanation}</p>}
+          </div>
+        )}
+      </Card>
+
+      <div className="flex justify-end">
+        {checked ? (
+          <Button onClick={next}>{position + 1 < round.length ? "Next question" : "See results"}</Button>
+        ) : (
+          <Button onClick={checkAnswer} disabled={selected === ""}>
+            Check answer
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
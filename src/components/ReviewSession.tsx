@@ -0,0 +1,183 @@
+import { useEffect, useState } from "react";
+import { CheckCircle2, Clock } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { useStudyDecks } from "@/hooks/use-study-decks";
+import { REVIEW_GRADES, dueCards, formatInterval, reviewSchedule, type ReviewGrade } from "@/lib/srs";
+
+interface ReviewSessionProps {
+  /** Decks to draw due cards from */
+  deckIds: string[];
+  onDone: () => void;
+}
+
+interface QueueItem {
+  deckId: string;
+  cardId: string;
+  /** Set on cards graded "again": not shown again before they're due */
+  notBefore?: number;
+}
+
+// How often the "come back" countdown refreshes
+const WAIT_TICK_MS = 30 * 1000;
+
+const GRADE_LABELS: Record<ReviewGrade, string> = {
+  again: "Again",
+  hard: "Hard",
+  good: "Good",
+  easy: "Easy",
+};
+
+export const ReviewSession = ({ deckIds, onDone }: ReviewSessionProps) => {
+  const { decks, reviewCard } = useStudyDecks();
+  // The queue is fixed when the session starts; cards graded "again" rejoin at the end
+  const [queue, setQueue] = useState<QueueItem[]>(() =>
+    decks
+      .filter((deck) => deckIds.includes(deck.id))
+      .flatMap((deck) => dueCards(deck.cards).map((card) => ({ deckId: deck.id, cardId: card.id })))
+  );
+  const [total] = useState(queue.length);
+  const [reviewed, setReviewed] = useState(0);
+  const [showAnswer, setShowAnswer] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+
+  const findCard = ({ deckId, cardId }: QueueItem) =>
+    decks.find((d) => d.id === deckId)?.cards.find((c) => c.id === cardId);
+  // Cards deleted from their deck mid-session are skipped
+  const pending = queue.filter((entry) => findCard(entry));
+  const item = pending.find((entry) => !entry.notBefore || entry.notBefore <= now);
+  const deck = item && decks.find((d) => d.id === item.deckId);
+  const card = item && findCard(item);
+  // Only relearning cards are left and none is due yet
+  const nextDue = !item && pending.length > 0 ? Math.min(...pending.map((entry) => entry.notBefore ?? now)) : null;
+
+  useEffect(() => {
+    if (nextDue === null) return;
+    const timer = setTimeout(() => setNow(Date.now()), Math.min(WAIT_TICK_MS, Math.max(0, nextDue - Date.now())));
+    return () => clearTimeout(timer);
+  }, [nextDue, now]);
+
+  const grade = (value: ReviewGrade) => {
+    if (!item) return;
+    const schedule = reviewCard(item.deckId, item.cardId, value);
+    setQueue((prev) => {
+      const rest = prev.filter((entry) => entry !== item);
+      return value === "again" ? [...rest, { ...item, notBefore: schedule?.due }] : rest;
+    });
+    setReviewed((n) => n + 1);
+    setShowAnswer(false);
+    setNow(Date.now());
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (!card) return;
+    if (!showAnswer && (e.key === " " || e.key === "Enter")) {
+      e.preventDefault();
+      setShowAnswer(true);
+      return;
+    }
+    const index = Number(e.key) - 1;
+    if (showAnswer && index >= 0 && index < REVIEW_GRADES.length) grade(REVIEW_GRADES[index]);
+  };
+
+  if (nextDue !== null) {
+    return (
+      <div className="flex flex-col items-center gap-3 py-6 text-center">
+        <Clock className="w-10 h-10 text-primary" />
+        <p className="font-medium text-foreground">
+          Come back in {Math.max(1, Math.ceil((nextDue - now) / 60000))}m
+        </p>
+        <p className="text-sm text-muted-foreground">
+          {pending.length} {pending.length === 1 ? "card" : "cards"} to relearn once due
+        </p>
+        <Button onClick={onDone} variant="outline" size="sm">
+          Back to decks
+        </Button>
+      </div>
+    );
+  }
+
+  if (!card) {
+    return (
+      <div className="flex flex-col items-center gap-3 py-6 text-center">
+        <CheckCircle2 className="w-10 h-10 text-primary" />
+        <p className="font-medium text-foreground">
+          {total === 0 ? "Nothing is due today" : "All caught up for today"}
+        </p>
+        {reviewed > 0 && <p className="text-sm text-muted-foreground">{reviewed} reviews this session</p>}
+        <Button onClick={onDone} variant="outline" size="sm">
+          Back to decks
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      tabIndex={0}
+      onKeyDown={handleKeyDown}
+      className="space-y-4 outline-none focus-visible:ring-2 focus-visible:ring-ring rounded-md"
+    >
+      {/* Progress */}
+      <div className="space-y-1">
+        <div className="flex items-center justify-between text-xs text-muted-foreground">
+          <span className="truncate">{deck.title}</span>
+          <span className="shrink-0">{pending.length} left</span>
+        </div>
+        <Progress value={total ? (Math.min(reviewed, total) / total) * 100 : 0} className="h-1.5" />
+      </div>
+
+      {/* Card */}
+      <div className="min-h-[12rem] flex flex-col items-center justify-center gap-3 p-4 rounded-lg border-2 border-border bg-background text-center">
+        <p className="text-base font-medium text-foreground">{card.front}</p>
+        {showAnswer && (
+          <>
+            <div className="w-full border-t border-border" />
+            <p className="text-sm text-foreground">{card.back}</p>
+            {card.tags.length > 0 && (
+              <div className="flex flex-wrap justify-center gap-1">
+                {card.tags.map((tag) => (
+                  <Badge key={tag} variant="secondary" className="text-xs">
+                    {tag}
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      {/* Grading */}
+      {showAnswer ? (
+        <div className="grid grid-cols-4 gap-2">
+          {REVIEW_GRADES.map((value, index) => (
+            <Button
+              key={value}
+              onClick={() => grade(value)}
+              variant={value === "good" ? "default" : "outline"}
+              size="sm"
+              className="flex-col h-auto py-2"
+            >
+              <span>{GRADE_LABELS[value]}</span>
+              <span className="text-xs opacity-70">
+                {index + 1} · {formatInterval(reviewSchedule(card.schedule, value))}
+              </span>
+            </Button>
+          ))}
+        </div>
+      ) : (
+        <Button onClick={() => setShowAnswer(true)} className="w-full">
+          Show answer
+        </Button>
+      )}
+
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-muted-foreground">Space to show · 1–4 to grade</p>
+        <Button onClick={onDone} variant="ghost" size="sm">
+          End session
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,115 @@
+import { useEffect, useRef, useState } from "react";
+import { LOW_CONFIDENCE_THRESHOLD, type OCRBlock } from "@/lib/ocr";
+import { cn } from "@/lib/utils";
+
+export interface LineHighlight {
+  lineId: string;
+  /** Which side the hover came from, so only the other side scrolls */
+  source: "text" | "image";
+}
+
+interface SourceImageViewProps {
+  image: string;
+  blocks: OCRBlock[];
+  highlight: LineHighlight | null;
+  onHighlightChange: (highlight: LineHighlight | null) => void;
+}
+
+export const SourceImageView = ({
+  image,
+  blocks,
+  highlight,
+  onHighlightChange,
+}: SourceImageViewProps) => {
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (highlight?.source !== "text") return;
+    containerRef.current
+      ?.querySelector(`[data-line-id="${highlight.lineId}"]`)
+      ?.scrollIntoView({ block: "nearest", behavior: "smooth" });
+  }, [highlight]);
+
+  const activeLine = highlight
+    ? blocks.flatMap((block) => block.lines).find((line) => line.id === highlight.lineId)
+    : undefined;
+
+  return (
+    <div className="w-full space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xl font-semibold text-foreground">Source Image</h3>
+        <p className="text-xs text-muted-foreground">Hover a line to find it in the text</p>
+      </div>
+      <div ref={containerRef} className="relative w-full max-h-[600px] overflow-auto rounded-lg border border-border bg-muted/30">
+        <div className="relative">
+          <img
+            src={image}
+            alt="Processed scan"
+            className="block w-full h-auto"
+            onLoad={(e) =>
+              setSize({
+                width: e.currentTarget.naturalWidth,
+                height: e.currentTarget.naturalHeight,
+              })
+            }
+          />
+          {size && (
+            <svg
+              className="absolute inset-0 w-full h-full"
+              viewBox={`0 0 ${size.width} ${size.height}`}
+              preserveAspectRatio="none"
+              onMouseLeave={() => onHighlightChange(null)}
+            >
+              {blocks.map((block) => (
+                <g key={block.id}>
+                  <rect
+                    x={block.bbox.x0}
+                    y={block.bbox.y0}
+                    width={block.bbox.x1 - block.bbox.x0}
+                    height={block.bbox.y1 - block.bbox.y0}
+                    className="fill-none stroke-primary/40"
+                    strokeDasharray="6 4"
+                    vectorEffect="non-scaling-stroke"
+                  />
+                  {block.lines.map((line) => (
+                    <rect
+                      key={line.id}
+                      data-line-id={line.id}
+                      x={line.bbox.x0}
+                      y={line.bbox.y0}
+                      width={line.bbox.x1 - line.bbox.x0}
+                      height={line.bbox.y1 - line.bbox.y0}
+                      vectorEffect="non-scaling-stroke"
+                      className={cn(
+                        "cursor-pointer transition-colors",
+                        highlight?.lineId === line.id
+                          ? "fill-primary/20 stroke-primary"
+                          : "fill-transparent stroke-transparent hover:stroke-primary/60"
+                      )}
+                      onMouseEnter={() => onHighlightChange({ lineId: line.id, source: "image" })}
+                    />
+                  ))}
+                </g>
+              ))}
+              {activeLine?.words.map((word) => (
+                <rect
+                  key={word.id}
+                  x={word.bbox.x0}
+                  y={word.bbox.y0}
+                  width={word.bbox.x1 - word.bbox.x0}
+                  height={word.bbox.y1 - word.bbox.y0}
+                  vectorEffect="non-scaling-stroke"
+                  className={cn(
+                    "fill-none pointer-events-none",
+                    word.confidence < LOW_CONFIDENCE_THRESHOLD ? "stroke-amber-500" : "stroke-primary/60"
+                  )}
+                />
+              ))}
+            </svg>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,133 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { BarChart3, Brain, GraduationCap, Trash2 } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { useStudyDecks } from "@/hooks/use-study-decks";
+import { ReviewSession } from "./ReviewSession";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatDate = (time: number) =>
+  new Date(time).toLocaleDateString(undefined, { day: "numeric", month: "short" });
+
+interface StudyDecksProps {
+  /** Takes over the Progress link, e.g. to confirm leaving unsaved work first */
+  onOpenProgress?: () => void;
+}
+
+export const StudyDecks = ({ onOpenProgress }: StudyDecksProps) => {
+  const { decks, reviews, quizAttempts, dueCounts, deleteDeck } = useStudyDecks();
+  const [reviewing, setReviewing] = useState<string[] | null>(null);
+
+  // Quiz results alone are still worth a link to the progress page
+  if (decks.length === 0 && quizAttempts.length === 0) return null;
+
+  const totalDue = decks.reduce((sum, deck) => sum + dueCounts[deck.id], 0);
+  const weekAgo = Date.now() - 7 * DAY_MS;
+  const reviewsThisWeek = reviews.filter((review) => review.reviewedAt >= weekAgo).length;
+
+  return (
+    <Card className="w-full max-w-7xl mx-auto mt-6 p-6 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <GraduationCap className="w-5 h-5 text-primary" />
+          <div>
+            <h3 className="text-lg font-semibold text-foreground">Study Decks</h3>
+            <p className="text-xs text-muted-foreground">
+              {totalDue} due today · {reviewsThisWeek} reviews in the last 7 days
+            </p>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button asChild variant="outline" className="gap-2">
+            <Link
+              to="/progress"
+              onClick={(e) => {
+                if (!onOpenProgress) return;
+                e.preventDefault();
+                onOpenProgress();
+              }}
+            >
+              <BarChart3 className="w-4 h-4" />
+              Progress
+            </Link>
+          </Button>
+          {!reviewing && totalDue > 0 && (
+            <Button onClick={() => setReviewing(decks.map((deck) => deck.id))} className="gap-2">
+              <Brain className="w-4 h-4" />
+              Review all due
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {reviewing ? (
+        <ReviewSession deckIds={reviewing} onDone={() => setReviewing(null)} />
+      ) : decks.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Save a set of flashcards to review it here.</p>
+      ) : (
+        <div className="divide-y divide-border">
+          {decks.map((deck) => {
+            const deckReviews = reviews.filter((review) => review.deckId === deck.id);
+            const lastReview = deckReviews[deckReviews.length - 1];
+            return (
+              <div key={deck.id} className="flex items-center justify-between gap-3 py-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-foreground truncate">{deck.title}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {deck.cards.length} cards · {deckReviews.length} reviews
+                    {lastReview ? ` · last studied ${formatDate(lastReview.reviewedAt)}` : ` · saved ${formatDate(deck.createdAt)}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  {dueCounts[deck.id] > 0 ? (
+                    <Button onClick={() => setReviewing([deck.id])} size="sm" variant="outline" className="gap-2">
+                      Review
+                      <Badge variant="secondary" className="text-xs">
+                        {dueCounts[deck.id]}
+                      </Badge>
+                    </Button>
+                  ) : (
+                    <span className="text-xs text-muted-foreground">Nothing due</span>
+                  )}
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button variant="ghost" size="icon" aria-label={`Delete ${deck.title}`}>
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Delete this deck?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          "{deck.title}" and its review history will be removed from this browser.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction onClick={() => deleteDeck(deck.id)}>Delete</AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </Card>
+  );
+};
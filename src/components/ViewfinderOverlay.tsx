@@ -0,0 +1,52 @@
+import { useEffect, useRef, type RefObject } from "react";
+import type { FrameQuality } from "@/lib/frame-quality";
+
+interface ViewfinderOverlayProps {
+  videoRef: RefObject<HTMLVideoElement>;
+  quality: FrameQuality | null;
+}
+
+export const ViewfinderOverlay = ({ videoRef, quality }: ViewfinderOverlayProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const video = videoRef.current;
+    if (!canvas || !video) return;
+
+    // Match the canvas to its on-screen size so lines stay crisp
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = canvas.clientWidth * ratio;
+    canvas.height = canvas.clientHeight * ratio;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+    const outline = quality?.outline;
+    if (!outline || !video.videoWidth) return;
+
+    // The video uses object-cover, so it is scaled to fill and centre-cropped
+    const scale = Math.max(canvas.width / video.videoWidth, canvas.height / video.videoHeight);
+    const offsetX = (canvas.width - video.videoWidth * scale) / 2;
+    const offsetY = (canvas.height - video.videoHeight * scale) / 2;
+
+    ctx.beginPath();
+    outline.forEach(({ x, y }, i) => {
+      const px = offsetX + x * scale;
+      const py = offsetY + y * scale;
+      if (i === 0) ctx.moveTo(px, py);
+      else ctx.lineTo(px, py);
+    });
+    ctx.closePath();
+
+    const colour = quality.acceptable ? "34, 197, 94" : "251, 191, 36";
+    ctx.fillStyle = `rgba(${colour}, 0.15)`;
+    ctx.strokeStyle = `rgb(${colour})`;
+    ctx.lineWidth = 3 * ratio;
+    ctx.lineJoin = "round";
+    ctx.fill();
+    ctx.stroke();
+  }, [quality, videoRef]);
+
+  return <canvas ref={canvasRef} className="absolute inset-0 w-full h-full pointer-events-none" />;
+};
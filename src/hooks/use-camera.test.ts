@@ -0,0 +1,138 @@
+import { act, cleanup, renderHook, waitFor } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { useCamera } from "@/hooks/use-camera";
+
+const fakeStream = () => {
+  const track = {
+    stop: vi.fn(),
+    addEventListener: vi.fn(),
+    getCapabilities: () => ({}),
+  };
+  const stream = {
+    getTracks: () => [track],
+    getVideoTracks: () => [track],
+  };
+  return { track, stream: stream as unknown as MediaStream };
+};
+
+const cameraError = (name: string) => new DOMException("Camera failed", name);
+
+let getUserMedia: ReturnType<typeof vi.fn>;
+let hidden = false;
+
+const setHidden = (value: boolean) => {
+  hidden = value;
+  act(() => {
+    document.dispatchEvent(new Event("visibilitychange"));
+  });
+};
+
+const renderCamera = () =>
+  renderHook(() => useCamera({ current: null }, { facingMode: "environment" }));
+
+beforeEach(() => {
+  hidden = false;
+  Object.defineProperty(document, "hidden", { configurable: true, get: () => hidden });
+  getUserMedia = vi.fn();
+  Object.defineProperty(navigator, "mediaDevices", {
+    configurable: true,
+    value: { getUserMedia, enumerateDevices: vi.fn().mockResolvedValue([]) },
+  });
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  cleanup();
+  vi.restoreAllMocks();
+});
+
+describe("useCamera", () => {
+  it("becomes active once the stream opens", async () => {
+    const { stream, track } = fakeStream();
+    getUserMedia.mockResolvedValue(stream);
+
+    const { result } = renderCamera();
+
+    await waitFor(() => expect(result.current.status).toBe("active"));
+    expect(result.current.track).toBe(track);
+  });
+
+  it("reports denied when permission is refused", async () => {
+    getUserMedia.mockRejectedValue(cameraError("NotAllowedError"));
+
+    const { result } = renderCamera();
+
+    await waitFor(() => expect(result.current.status).toBe("denied"));
+  });
+
+  it.each(["NotFoundError", "OverconstrainedError"])("reports unavailable on %s", async (name) => {
+    getUserMedia.mockRejectedValue(cameraError(name));
+
+    const { result } = renderCamera();
+
+    await waitFor(() => expect(result.current.status).toBe("unavailable"));
+  });
+
+  it("keeps the error for anything unexpected", async () => {
+    const error = cameraError("NotReadableError");
+    getUserMedia.mockRejectedValue(error);
+
+    const { result } = renderCamera();
+
+    await waitFor(() => expect(result.current.status).toBe("error"));
+    expect(result.current.error).toBe(error);
+  });
+
+  it("stops the tracks on unmount", async () => {
+    const { stream, track } = fakeStream();
+    getUserMedia.mockResolvedValue(stream);
+
+    const { result, unmount } = renderCamera();
+    await waitFor(() => expect(result.current.status).toBe("active"));
+    unmount();
+
+    expect(track.stop).toHaveBeenCalled();
+  });
+
+  it("stops the old tracks before retrying", async () => {
+    const first = fakeStream();
+    const second = fakeStream();
+    getUserMedia.mockResolvedValueOnce(first.stream).mockResolvedValueOnce(second.stream);
+
+    const { result } = renderCamera();
+    await waitFor(() => expect(result.current.track).toBe(first.track));
+    act(() => result.current.retry());
+
+    await waitFor(() => expect(result.current.track).toBe(second.track));
+    expect(first.track.stop).toHaveBeenCalled();
+    expect(second.track.stop).not.toHaveBeenCalled();
+  });
+
+  it("recovers from denied on retry", async () => {
+    const { stream } = fakeStream();
+    getUserMedia.mockRejectedValueOnce(cameraError("NotAllowedError")).mockResolvedValueOnce(stream);
+
+    const { result } = renderCamera();
+    await waitFor(() => expect(result.current.status).toBe("denied"));
+    act(() => result.current.retry());
+
+    await waitFor(() => expect(result.current.status).toBe("active"));
+  });
+
+  it("pauses while the tab is hidden and resumes when it is shown", async () => {
+    const first = fakeStream();
+    const second = fakeStream();
+    getUserMedia.mockResolvedValueOnce(first.stream).mockResolvedValueOnce(second.stream);
+
+    const { result } = renderCamera();
+    await waitFor(() => expect(result.current.status).toBe("active"));
+
+    setHidden(true);
+    expect(result.current.status).toBe("paused");
+    expect(first.track.stop).toHaveBeenCalled();
+
+    setHidden(false);
+    await waitFor(() => expect(result.current.status).toBe("active"));
+    expect(result.current.track).toBe(second.track);
+  });
+});
@@ -0,0 +1,133 @@
+import { useCallback, useEffect, useRef, useState, type RefObject } from "react";
+import {
+  getCameraCapabilities,
+  listCameras,
+  openCameraStream,
+  type CameraCapabilities,
+  type CameraDevice,
+  type CameraSource,
+} from "@/lib/camera";
+
+export type CameraStatus =
+  | "requesting"
+  | "active"
+  /** Tab hidden; tracks are stopped so the camera light goes off */
+  | "paused"
+  | "denied"
+  | "unavailable"
+  | "error";
+
+const NO_CAPABILITIES: CameraCapabilities = { torch: false, zoom: null };
+
+const statusForError = (error: unknown): CameraStatus => {
+  if (!(error instanceof DOMException)) return "error";
+  if (error.name === "NotAllowedError" || error.name === "SecurityError") return "denied";
+  if (error.name === "NotFoundError" || error.name === "OverconstrainedError") return "unavailable";
+  return "error";
+};
+
+const stopStream = (stream: MediaStream | null) => {
+  stream?.getTracks().forEach((track) => track.stop());
+};
+
+/**
+ * Owns the camera stream for a `<video>` element. The stream lives in a ref
+ * rather than state so every teardown path (switching camera, hiding the
+ * tab, unmounting, or a request that resolves after any of those) stops the
+ * tracks that are actually running. `retry` re-requests after a failure.
+ */
+export function useCamera(videoRef: RefObject<HTMLVideoElement>, source: CameraSource) {
+  const { deviceId, facingMode } = source;
+  const [status, setStatus] = useState<CameraStatus>("requesting");
+  const [error, setError] = useState<unknown>(null);
+  const [track, setTrack] = useState<MediaStreamTrack | null>(null);
+  const [capabilities, setCapabilities] = useState<CameraCapabilities>(NO_CAPABILITIES);
+  const [devices, setDevices] = useState<CameraDevice[]>([]);
+  const [hidden, setHidden] = useState(() => document.hidden);
+  const [attempt, setAttempt] = useState(0);
+  const streamRef = useRef<MediaStream | null>(null);
+
+  const stop = useCallback(() => {
+    stopStream(streamRef.current);
+    streamRef.current = null;
+    setTrack(null);
+  }, []);
+
+  useEffect(() => {
+    const handleVisibility = () => setHidden(document.hidden);
+    document.addEventListener("visibilitychange", handleVisibility);
+    return () => document.removeEventListener("visibilitychange", handleVisibility);
+  }, []);
+
+  useEffect(() => {
+    if (hidden) {
+      setStatus("paused");
+      return;
+    }
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setStatus("unavailable");
+      return;
+    }
+
+    let cancelled = false;
+    setStatus("requesting");
+    setError(null);
+
+    openCameraStream({ deviceId, facingMode })
+      .then(async (stream) => {
+        // The source changed or the component unmounted while we waited
+        if (cancelled) {
+          stopStream(stream);
+          return;
+        }
+
+        streamRef.current = stream;
+        const videoTrack = stream.getVideoTracks()[0];
+        setTrack(videoTrack);
+        setCapabilities(getCameraCapabilities(videoTrack));
+        setStatus("active");
+
+        // A camera unplugged or taken over by another app ends the track
+        videoTrack.addEventListener("ended", () => {
+          if (streamRef.current === stream) setStatus("error");
+        });
+
+        const cameras = await listCameras();
+        if (!cancelled) setDevices(cameras);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        console.error("Camera access error:", err);
+        setError(err);
+        setStatus(statusForError(err));
+      });
+
+    return () => {
+      cancelled = true;
+      stopStream(streamRef.current);
+      streamRef.current = null;
+      setTrack(null);
+      setCapabilities(NO_CAPABILITIES);
+    };
+  }, [deviceId, facingMode, hidden, attempt]);
+
+  // The video element may mount after the stream arrives, so attach on both
+  useEffect(() => {
+    const video = videoRef.current;
+    if (video && status === "active" && streamRef.current && video.srcObject !== streamRef.current) {
+      video.srcObject = streamRef.current;
+    }
+  }, [videoRef, status, track]);
+
+  const retry = useCallback(() => setAttempt((n) => n + 1), []);
+
+  return {
+    status,
+    error,
+    track,
+    capabilities,
+    devices,
+    retry,
+    stop,
+  };
+}
@@ -0,0 +1,32 @@
+import { useEffect, useSyncExternalStore } from "react";
+import {
+  deleteDocument,
+  getDocument,
+  getLibraryState,
+  loadLibrary,
+  saveDocument,
+  subscribeLibrary,
+  updateDocumentDetails,
+} from "@/lib/library-store";
+
+/**
+ * Scanned documents saved in IndexedDB. The list holds summaries only;
+ * `getDocument` loads the pages, text and study material of one document.
+ */
+export function useDocumentLibrary() {
+  const { documents, loaded, usage } = useSyncExternalStore(subscribeLibrary, getLibraryState);
+
+  useEffect(() => {
+    loadLibrary();
+  }, []);
+
+  return {
+    documents,
+    loaded,
+    usage,
+    saveDocument,
+    getDocument,
+    updateDocumentDetails,
+    deleteDocument,
+  };
+}
@@ -0,0 +1,94 @@
+import { useCallback, useEffect, useRef } from "react";
+import type { FilterSettings } from "@/lib/filters";
+import type { FilterRequest, FilterResponse } from "@/workers/filters.worker";
+
+type Pending = {
+  resolve: (data: ImageData) => void;
+  reject: (error: Error) => void;
+  width: number;
+  height: number;
+};
+
+/**
+ * Runs the image filter pipeline in a Web Worker so large photos don't
+ * freeze the preview. The worker lives as long as the calling component;
+ * if it fails to load or crashes, waiting requests are rejected and the
+ * next request starts a fresh one.
+ */
+export function useFilterWorker() {
+  const workerRef = useRef<Worker | null>(null);
+  const activeRef = useRef(false);
+  const pendingRef = useRef(new Map<number, Pending>());
+  const nextIdRef = useRef(0);
+
+  const rejectPending = useCallback((error: Error) => {
+    pendingRef.current.forEach((request) => request.reject(error));
+    pendingRef.current.clear();
+  }, []);
+
+  const startWorker = useCallback(() => {
+    const worker = new Worker(new URL("../workers/filters.worker.ts", import.meta.url), {
+      type: "module",
+    });
+    const pending = pendingRef.current;
+
+    worker.onmessage = (e: MessageEvent<FilterResponse>) => {
+      const request = pending.get(e.data.id);
+      if (!request) return;
+      pending.delete(e.data.id);
+
+      if (e.data.data) {
+        request.resolve(new ImageData(e.data.data, request.width, request.height));
+      } else {
+        request.reject(new Error(e.data.error ?? "Filter pipeline failed"));
+      }
+    };
+
+    // Nothing would ever answer the requests still waiting
+    const fail = (message: string) => {
+      worker.terminate();
+      if (workerRef.current === worker) workerRef.current = null;
+      rejectPending(new Error(message));
+    };
+    worker.onerror = (e) => {
+      e.preventDefault();
+      console.error("Filter worker error:", e.message);
+      fail(e.message || "Filter worker failed");
+    };
+    worker.onmessageerror = () => fail("Filter worker sent a result that could not be read");
+
+    workerRef.current = worker;
+    return worker;
+  }, [rejectPending]);
+
+  useEffect(() => {
+    activeRef.current = true;
+    startWorker();
+    return () => {
+      activeRef.current = false;
+      workerRef.current?.terminate();
+      workerRef.current = null;
+      rejectPending(new Error("Filter worker stopped"));
+    };
+  }, [startWorker, rejectPending]);
+
+  const applyFilters = useCallback((image: ImageData, settings: FilterSettings) => {
+    if (!activeRef.current) return Promise.reject(new Error("Filter worker is not running"));
+    const worker = workerRef.current ?? startWorker();
+
+    const id = nextIdRef.current++;
+    return new Promise<ImageData>((resolve, reject) => {
+      pendingRef.current.set(id, { resolve, reject, width: image.width, height: image.height });
+      const request: FilterRequest = {
+        id,
+        data: image.data,
+        width: image.width,
+        height: image.height,
+        settings,
+      };
+      worker.postMessage(request, [image.data.buffer]);
+    });
+  }, [startWorker]);
+
+  return { applyFilters };
+}
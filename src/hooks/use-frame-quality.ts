@@ -0,0 +1,36 @@
+import { useEffect, useRef, useState, type RefObject } from "react";
+import { analyzeFrame, type FrameQuality } from "@/lib/frame-quality";
+
+// A few checks a second is plenty for a hand-held camera and spares the CPU
+const ANALYSIS_INTERVAL_MS = 250;
+
+/**
+ * Samples the live video while `enabled` and reports how well the current
+ * frame would OCR. Returns null until the first frame has been analysed.
+ */
+export function useFrameQuality(videoRef: RefObject<HTMLVideoElement>, enabled: boolean) {
+  const [quality, setQuality] = useState<FrameQuality | null>(null);
+  const previousRef = useRef<Float32Array | null>(null);
+
+  useEffect(() => {
+    if (!enabled) {
+      previousRef.current = null;
+      setQuality(null);
+      return;
+    }
+
+    const timer = setInterval(() => {
+      const video = videoRef.current;
+      if (!video || video.paused || video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) return;
+
+      const sample = analyzeFrame(video, previousRef.current);
+      if (!sample) return;
+      previousRef.current = sample.gray;
+      setQuality(sample.quality);
+    }, ANALYSIS_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }, [enabled, videoRef]);
+
+  return quality;
+}
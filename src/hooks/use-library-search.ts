@@ -0,0 +1,53 @@
+import { useEffect, useState } from "react";
+import { getDocument, type LibraryDocument, type LibraryDocumentSummary } from "@/lib/library-store";
+import { buildSearchIndex, type SearchIndex } from "@/lib/search";
+
+// Text-only copies of documents already read for the index, by id
+const indexedDocuments = new Map<string, { updatedAt: number; document: LibraryDocument }>();
+
+const loadForIndex = async (summary: LibraryDocumentSummary) => {
+  const cached = indexedDocuments.get(summary.id);
+  if (cached?.updatedAt === summary.updatedAt) return cached.document;
+
+  const document = await getDocument(summary.id);
+  if (!document) return null;
+  // The index only needs text and word boxes; don't hold every scan in memory
+  const textOnly: LibraryDocument = {
+    ...document,
+    thumbnail: null,
+    pages: document.pages.map((page) => ({ ...page, original: "", processed: null })),
+  };
+  indexedDocuments.set(summary.id, { updatedAt: summary.updatedAt, document: textOnly });
+  return textOnly;
+};
+
+/**
+ * Builds the full-text index for the library the first time it's needed and
+ * rebuilds it when documents change, re-reading only the ones that did.
+ */
+export function useLibrarySearch(documents: LibraryDocumentSummary[], enabled: boolean) {
+  const [index, setIndex] = useState<SearchIndex | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+
+    // Deleted documents shouldn't stay searchable or hold on to their text
+    const ids = new Set(documents.map((summary) => summary.id));
+    indexedDocuments.forEach((_, id) => {
+      if (!ids.has(id)) indexedDocuments.delete(id);
+    });
+
+    Promise.all(documents.map(loadForIndex))
+      .then((loaded) => {
+        if (!cancelled) setIndex(buildSearchIndex(loaded.filter((doc): doc is LibraryDocument => doc !== null)));
+      })
+      .catch((error) => console.error("Search index error:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [documents, enabled]);
+
+  return index;
+}
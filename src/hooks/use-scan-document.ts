@@ -0,0 +1,132 @@
+import { useCallback, useRef, useState } from "react";
+import { runOCR } from "@/lib/ocr";
+import {
+  createPage,
+  movePage as reorderPages,
+  pageImage,
+  type DocumentPage,
+  type NewPage,
+} from "@/lib/document";
+
+/**
+ * Ordered pages of a scanning session plus a sequential OCR queue.
+ * Pages are recognised one at a time so Tesseract workers never compete
+ * for the CPU on phones. `initialPages` restores a saved document.
+ */
+export function useScanDocument(initialPages: DocumentPage[] = []) {
+  const [pages, setPages] = useState<DocumentPage[]>(initialPages);
+  const [isProcessing, setIsProcessing] = useState(false);
+  // The ref is the source of truth so the OCR queue always sees pages that
+  // were added, edited or deleted while it was awaiting Tesseract.
+  const pagesRef = useRef(pages);
+  const runningRef = useRef(false);
+
+  const commit = useCallback((next: DocumentPage[]) => {
+    pagesRef.current = next;
+    setPages(next);
+  }, []);
+
+  const updatePage = useCallback(
+    (id: string, changes: Partial<DocumentPage>) => {
+      commit(pagesRef.current.map((page) => (page.id === id ? { ...page, ...changes } : page)));
+    },
+    [commit]
+  );
+
+  /** Appends pages, or inserts them at `index` when given */
+  const addPages = useCallback(
+    (newPages: NewPage[], index = pagesRef.current.length) => {
+      const added = newPages.map(createPage);
+      const next = [...pagesRef.current];
+      next.splice(index, 0, ...added);
+      commit(next);
+      return added;
+    },
+    [commit]
+  );
+
+  const removePage = useCallback(
+    (id: string) => {
+      commit(pagesRef.current.filter((page) => page.id !== id));
+    },
+    [commit]
+  );
+
+  const movePage = useCallback(
+    (from: number, to: number) => {
+      commit(reorderPages(pagesRef.current, from, to));
+    },
+    [commit]
+  );
+
+  const clearPages = useCallback(() => {
+    commit([]);
+  }, [commit]);
+
+  /**
+   * Queues the given pages (or every page not yet recognised) for OCR. If the
+   * queue is already running the pages are picked up by that run, otherwise
+   * this call drains the queue and resolves with a summary.
+   */
+  const processPages = useCallback(
+    async (language: string, ids?: string[]) => {
+      pagesRef.current
+        .filter((page) => (ids ? ids.includes(page.id) : page.status !== "done"))
+        .forEach((page) =>
+          updatePage(page.id, { status: "pending", progress: 0, progressStatus: "Queued" })
+        );
+
+      if (runningRef.current) return null;
+      runningRef.current = true;
+      setIsProcessing(true);
+
+      let processed = 0;
+      let failed = 0;
+      let page: DocumentPage | undefined;
+
+      while ((page = pagesRef.current.find((p) => p.status === "pending"))) {
+        const id = page.id;
+        updatePage(id, { status: "processing", progress: 0 });
+
+        try {
+          const { result, language: pageLanguage } = await runOCR(
+            pageImage(page),
+            language,
+            (status, value) =>
+              updatePage(id, { progressStatus: status, progress: Math.round(value * 100) })
+          );
+
+          updatePage(id, {
+            status: "done",
+            progress: 100,
+            progressStatus: "",
+            text: result.text,
+            blocks: result.blocks,
+            language: pageLanguage,
+          });
+          processed += 1;
+        } catch (error) {
+          console.error(`OCR Error on ${page.name}:`, error);
+          updatePage(id, { status: "error", progress: 0, progressStatus: "" });
+          failed += 1;
+        }
+      }
+
+      runningRef.current = false;
+      setIsProcessing(false);
+      return { processed, failed };
+    },
+    [updatePage]
+  );
+
+  return {
+    pages,
+    isProcessing,
+    addPages,
+    updatePage,
+    removePage,
+    movePage,
+    clearPages,
+    processPages,
+  };
+}
@@ -0,0 +1,53 @@
+import { useEffect, useMemo, useState, useSyncExternalStore } from "react";
+import {
+  createDeck,
+  deleteDeck,
+  getDeckState,
+  recordQuizAttempt,
+  renameDeck,
+  reviewCard,
+  setDeckCards,
+  subscribeDecks,
+} from "@/lib/deck-store";
+import { dueCards } from "@/lib/srs";
+
+// Cards fall due with the clock, not only when decks change
+const DUE_REFRESH_MS = 60 * 1000;
+
+/**
+ * Saved flashcard decks, their review history and past quiz attempts.
+ * Every component using this hook shares one store, persisted to
+ * localStorage.
+ */
+export function useStudyDecks() {
+  const { decks, reviews, quizAttempts } = useSyncExternalStore(subscribeDecks, getDeckState);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const refresh = () => setNow(Date.now());
+    const timer = setInterval(refresh, DUE_REFRESH_MS);
+    window.addEventListener("focus", refresh);
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener("focus", refresh);
+    };
+  }, []);
+
+  const dueCounts = useMemo(
+    () => Object.fromEntries(decks.map((deck) => [deck.id, dueCards(deck.cards, now).length])),
+    [decks, now]
+  );
+
+  return {
+    decks,
+    reviews,
+    quizAttempts,
+    dueCounts,
+    createDeck,
+    setDeckCards,
+    renameDeck,
+    deleteDeck,
+    reviewCard,
+    recordQuizAttempt,
+  };
+}
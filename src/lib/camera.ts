@@ -0,0 +1,127 @@
+// Tried best first. Some phones refuse 4K on the front camera or while
+// another app holds the sensor, so each failure steps down a rung.
+const RESOLUTION_LADDER = [
+  { width: 3840, height: 2160 },
+  { width: 2560, height: 1440 },
+  { width: 1920, height: 1080 },
+  { width: 1280, height: 720 },
+];
+
+// Errors that mean "not at this resolution" rather than "not at all"
+const RETRYABLE_ERRORS = ["OverconstrainedError", "NotReadableError", "AbortError"];
+
+export interface CameraDevice {
+  deviceId: string;
+  label: string;
+}
+
+export interface CameraSource {
+  /** A specific camera from `listCameras`; otherwise the facing mode decides */
+  deviceId?: string;
+  facingMode: "user" | "environment";
+}
+
+/** Torch and zoom aren't in the DOM typings yet */
+export interface CameraCapabilities {
+  torch: boolean;
+  zoom: { min: number; max: number; step: number } | null;
+}
+
+type ExtendedCapabilities = MediaTrackCapabilities & {
+  torch?: boolean;
+  zoom?: { min: number; max: number; step?: number };
+};
+
+interface ImageCaptureLike {
+  takePhoto: () => Promise<Blob>;
+}
+
+declare global {
+  interface Window {
+    ImageCapture?: new (track: MediaStreamTrack) => ImageCaptureLike;
+  }
+}
+
+/** Video inputs; labels are only filled in once camera permission is granted */
+export const listCameras = async (): Promise<CameraDevice[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices
+    .filter((device) => device.kind === "videoinput")
+    .map((device, i) => ({ deviceId: device.deviceId, label: device.label || `Camera ${i + 1}` }));
+};
+
+/** Opens the camera at the highest resolution it accepts */
+export const openCameraStream = async ({ deviceId, facingMode }: CameraSource) => {
+  const base: MediaTrackConstraints = deviceId ? { deviceId: { exact: deviceId } } : { facingMode };
+  let lastError: unknown = null;
+
+  for (const { width, height } of RESOLUTION_LADDER) {
+    try {
+      return await navigator.mediaDevices.getUserMedia({
+        video: { ...base, width: { ideal: width }, height: { ideal: height } },
+        audio: false,
+      });
+    } catch (error) {
+      if (!(error instanceof DOMException) || !RETRYABLE_ERRORS.includes(error.name)) throw error;
+      lastError = error;
+    }
+  }
+
+  // Last resort: whatever the browser picks by default
+  try {
+    return await navigator.mediaDevices.getUserMedia({ video: base, audio: false });
+  } catch (error) {
+    throw lastError ?? error;
+  }
+};
+
+export const getCameraCapabilities = (track: MediaStreamTrack): CameraCapabilities => {
+  const capabilities = (track.getCapabilities?.() ?? {}) as ExtendedCapabilities;
+  const zoom = capabilities.zoom;
+  return {
+    torch: capabilities.torch === true,
+    zoom: zoom && zoom.max > zoom.min ? { min: zoom.min, max: zoom.max, step: zoom.step || 0.1 } : null,
+  };
+};
+
+export const setTorch = (track: MediaStreamTrack, on: boolean) =>
+  track.applyConstraints({ advanced: [{ torch: on } as MediaTrackConstraintSet] });
+
+export const setZoom = (track: MediaStreamTrack, zoom: number) =>
+  track.applyConstraints({ advanced: [{ zoom } as MediaTrackConstraintSet] });
+
+const blobToDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const grabVideoFrame = (video: HTMLVideoElement) => {
+  const canvas = document.createElement("canvas");
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not supported");
+  ctx.drawImage(video, 0, 0);
+  return canvas.toDataURL("image/png");
+};
+
+/**
+ * Takes a still at the sensor's full resolution through ImageCapture where
+ * the browser has it (Chrome on Android), which is often several times the
+ * video resolution. Falls back to grabbing the current video frame.
+ */
+export const takeStill = async (track: MediaStreamTrack | undefined, video: HTMLVideoElement) => {
+  if (track && window.ImageCapture) {
+    try {
+      const blob = await new window.ImageCapture(track).takePhoto();
+      return await blobToDataUrl(blob);
+    } catch (error) {
+      console.warn("ImageCapture failed, using the video frame:", error);
+    }
+  }
+  return grabVideoFrame(video);
+};
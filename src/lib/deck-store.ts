@@ -0,0 +1,158 @@
+import type { Difficulty, Flashcard } from "@/lib/study-tools";
+import { newSchedule, reviewSchedule, type ReviewGrade, type ReviewLog, type ScheduledCard } from "@/lib/srs";
+
+export interface StudyDeck {
+  id: string;
+  title: string;
+  createdAt: number;
+  cards: ScheduledCard[];
+}
+
+export interface QuizAttempt {
+  id: string;
+  /** Name of the document the quiz was generated from */
+  title: string;
+  takenAt: number;
+  /** True when only previously missed questions were asked */
+  isRetry: boolean;
+  results: { difficulty: Difficulty; correct: boolean }[];
+}
+
+interface DeckState {
+  decks: StudyDeck[];
+  reviews: ReviewLog[];
+  quizAttempts: QuizAttempt[];
+}
+
+const DECKS_KEY = "mfanekiso:decks:v1";
+const REVIEWS_KEY = "mfanekiso:reviews:v1";
+const QUIZ_ATTEMPTS_KEY = "mfanekiso:quiz-attempts:v1";
+const STORAGE_KEYS = [DECKS_KEY, REVIEWS_KEY, QUIZ_ATTEMPTS_KEY];
+// Enough history for charts without letting localStorage fill up
+const MAX_REVIEWS = 5000;
+const MAX_QUIZ_ATTEMPTS = 500;
+
+const read = <T,>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch (error) {
+    console.error(`Could not read ${key}:`, error);
+    return fallback;
+  }
+};
+
+const readState = (): DeckState => ({
+  decks: read<StudyDeck[]>(DECKS_KEY, []),
+  reviews: read<ReviewLog[]>(REVIEWS_KEY, []),
+  quizAttempts: read<QuizAttempt[]>(QUIZ_ATTEMPTS_KEY, []),
+});
+
+let state = readState();
+const listeners = new Set<() => void>();
+
+const commit = (next: DeckState) => {
+  const decksChanged = next.decks !== state.decks;
+  const reviewsChanged = next.reviews !== state.reviews;
+  const attemptsChanged = next.quizAttempts !== state.quizAttempts;
+  state = next;
+  try {
+    if (decksChanged) localStorage.setItem(DECKS_KEY, JSON.stringify(state.decks));
+    if (reviewsChanged) localStorage.setItem(REVIEWS_KEY, JSON.stringify(state.reviews));
+    if (attemptsChanged) localStorage.setItem(QUIZ_ATTEMPTS_KEY, JSON.stringify(state.quizAttempts));
+  } catch (error) {
+    // Quota errors keep the in-memory state, so the session still works
+    console.error("Could not save study decks:", error);
+  }
+  listeners.forEach((listener) => listener());
+};
+
+// Another tab reviewed or saved a deck
+if (typeof window !== "undefined") {
+  window.addEventListener("storage", (event) => {
+    if (!event.key || !STORAGE_KEYS.includes(event.key)) return;
+    state = readState();
+    listeners.forEach((listener) => listener());
+  });
+}
+
+export const subscribeDecks = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getDeckState = () => state;
+
+const updateDeck = (deckId: string, update: (deck: StudyDeck) => StudyDeck) => {
+  commit({ ...state, decks: state.decks.map((deck) => (deck.id === deckId ? update(deck) : deck)) });
+};
+
+export const createDeck = (title: string, cards: Flashcard[]) => {
+  const now = Date.now();
+  const deck: StudyDeck = {
+    id: crypto.randomUUID(),
+    title,
+    createdAt: now,
+    cards: cards.map((card) => ({ ...card, schedule: newSchedule(now) })),
+  };
+  commit({ ...state, decks: [deck, ...state.decks] });
+  return deck;
+};
+
+/** Replaces a deck's cards, keeping the schedule of cards that were already in it */
+export const setDeckCards = (deckId: string, cards: Flashcard[]) => {
+  updateDeck(deckId, (deck) => {
+    const schedules = new Map(deck.cards.map((card) => [card.id, card.schedule]));
+    return {
+      ...deck,
+      cards: cards.map((card) => ({ ...card, schedule: schedules.get(card.id) ?? newSchedule() })),
+    };
+  });
+};
+
+export const renameDeck = (deckId: string, title: string) => {
+  updateDeck(deckId, (deck) => ({ ...deck, title }));
+};
+
+export const deleteDeck = (deckId: string) => {
+  commit({
+    ...state,
+    decks: state.decks.filter((deck) => deck.id !== deckId),
+    reviews: state.reviews.filter((review) => review.deckId !== deckId),
+  });
+};
+
+export const reviewCard = (deckId: string, cardId: string, grade: ReviewGrade) => {
+  const deck = state.decks.find((d) => d.id === deckId);
+  const card = deck?.cards.find((c) => c.id === cardId);
+  if (!deck || !card) return null;
+
+  const now = Date.now();
+  const schedule = reviewSchedule(card.schedule, grade, now);
+  const log: ReviewLog = {
+    id: crypto.randomUUID(),
+    deckId,
+    cardId,
+    grade,
+    reviewedAt: now,
+    interval: schedule.interval,
+    ease: schedule.ease,
+  };
+
+  commit({
+    ...state,
+    decks: state.decks.map((d) =>
+      d.id === deckId ? { ...d, cards: d.cards.map((c) => (c.id === cardId ? { ...c, schedule } : c)) } : d
+    ),
+    reviews: [...state.reviews, log].slice(-MAX_REVIEWS),
+  });
+  return schedule;
+};
+
+export const recordQuizAttempt = (attempt: Omit<QuizAttempt, "id" | "takenAt">) => {
+  const entry: QuizAttempt = { ...attempt, id: crypto.randomUUID(), takenAt: Date.now() };
+  commit({ ...state, quizAttempts: [...state.quizAttempts, entry].slice(-MAX_QUIZ_ATTEMPTS) });
+  return entry;
+};
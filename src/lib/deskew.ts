@@ -0,0 +1,103 @@
+import { otsuThreshold } from "@/lib/filters";
+
+// Skew is estimated on a thumbnail from a sample of ink pixels
+const ANALYSIS_WIDTH = 800;
+const MAX_SAMPLES = 30000;
+const SEARCH_RANGE = 15;
+
+/** Size of the canvas needed to hold an image rotated by any angle */
+export const rotatedSize = (width: number, height: number, degrees: number) => {
+  const radians = (degrees * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(radians));
+  const sin = Math.abs(Math.sin(radians));
+  return {
+    width: Math.round(width * cos + height * sin),
+    height: Math.round(width * sin + height * cos),
+  };
+};
+
+const collectInkPixels = (source: CanvasImageSource & { width: number; height: number }) => {
+  const ratio = Math.min(1, ANALYSIS_WIDTH / source.width);
+  const w = Math.max(1, Math.round(source.width * ratio));
+  const h = Math.max(1, Math.round(source.height * ratio));
+
+  const canvas = document.createElement("canvas");
+  canvas.width = w;
+  canvas.height = h;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) return { xs: [], ys: [], height: h };
+  ctx.drawImage(source, 0, 0, w, h);
+  const { data } = ctx.getImageData(0, 0, w, h);
+
+  const gray = new Float32Array(w * h);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  const threshold = otsuThreshold(gray);
+
+  let ink = 0;
+  for (const v of gray) if (v < threshold) ink++;
+  const step = Math.max(1, Math.ceil(ink / MAX_SAMPLES));
+
+  // Centred coordinates so rotation happens about the middle of the page
+  const xs: number[] = [];
+  const ys: number[] = [];
+  let seen = 0;
+  for (let i = 0; i < gray.length; i++) {
+    if (gray[i] >= threshold || seen++ % step !== 0) continue;
+    xs.push((i % w) - w / 2);
+    ys.push(Math.floor(i / w) - h / 2);
+  }
+
+  return { xs, ys, height: h };
+};
+
+// Rows of text give a spiky horizontal projection when they are level,
+// and a smeared one when tilted; adjacent-bin differences reward spikes.
+const profileSharpness = (xs: number[], ys: number[], size: number, degrees: number) => {
+  const radians = (degrees * Math.PI) / 180;
+  const sin = Math.sin(radians);
+  const cos = Math.cos(radians);
+  const bins = new Float64Array(size * 2);
+
+  for (let i = 0; i < xs.length; i++) {
+    const y = Math.round(xs[i] * sin + ys[i] * cos + size);
+    if (y >= 0 && y < bins.length) bins[y]++;
+  }
+
+  let score = 0;
+  for (let i = 1; i < bins.length; i++) {
+    score += (bins[i] - bins[i - 1]) ** 2;
+  }
+  return score;
+};
+
+const bestAngle = (xs: number[], ys: number[], size: number, from: number, to: number, step: number) => {
+  let best = 0;
+  let bestScore = -Infinity;
+  for (let angle = from; angle <= to + 1e-9; angle += step) {
+    const score = profileSharpness(xs, ys, size, angle);
+    if (score > bestScore) {
+      bestScore = score;
+      best = angle;
+    }
+  }
+  return best;
+};
+
+/**
+ * Estimates how far the text lines are tilted and returns the rotation in
+ * degrees (clockwise, as used by canvas) that levels them. Coarse search
+ * first, then a fine pass around the best coarse angle. Returns 0 for pages
+ * without enough text to judge.
+ */
+export const estimateDeskewAngle = (source: CanvasImageSource & { width: number; height: number }) => {
+  const { xs, ys, height } = collectInkPixels(source);
+  if (xs.length < 100) return 0;
+
+  const size = Math.ceil(Math.hypot(ANALYSIS_WIDTH, height));
+  const coarse = bestAngle(xs, ys, size, -SEARCH_RANGE, SEARCH_RANGE, 1);
+  const fine = bestAngle(xs, ys, size, coarse - 1, coarse + 1, 0.1);
+
+  return Math.round(fine * 10) / 10;
+};
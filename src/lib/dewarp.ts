@@ -0,0 +1,291 @@
+import { otsuThreshold } from "@/lib/filters";
+
+type Source = CanvasImageSource & { width: number; height: number };
+
+// Text lines are traced on a thumbnail; curvature doesn't need detail
+const ANALYSIS_WIDTH = 1000;
+// Each strip contributes one point per text line it crosses
+const STRIP_COUNT = 24;
+// A traced line must cross this share of the strips to be trusted
+const MIN_LINE_COVERAGE = 0.4;
+const MIN_LINES = 3;
+// Gutters are only looked for in the middle of the spread
+const GUTTER_SEARCH_BAND = 0.2;
+
+interface LinePoint {
+  x: number;
+  y: number;
+}
+
+/** y = a·t² + b·t + c, with t running from -1 at the left edge to 1 at the right */
+interface LineCurve {
+  a: number;
+  b: number;
+  c: number;
+}
+
+const inkMask = (source: Source, maxWidth: number) => {
+  const ratio = Math.min(1, maxWidth / source.width);
+  const w = Math.max(1, Math.round(source.width * ratio));
+  const h = Math.max(1, Math.round(source.height * ratio));
+
+  const canvas = document.createElement("canvas");
+  canvas.width = w;
+  canvas.height = h;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) return null;
+  ctx.drawImage(source, 0, 0, w, h);
+  const { data } = ctx.getImageData(0, 0, w, h);
+
+  const gray = new Float32Array(w * h);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  const threshold = otsuThreshold(gray);
+  const ink = new Uint8Array(w * h);
+  for (let i = 0; i < gray.length; i++) ink[i] = gray[i] < threshold ? 1 : 0;
+
+  return { ink, w, h, ratio };
+};
+
+// Centres of the runs of inked rows inside one vertical strip
+const stripLineCentres = (ink: Uint8Array, w: number, h: number, x0: number, x1: number) => {
+  const width = x1 - x0;
+  const rows = new Float32Array(h);
+  for (let y = 0; y < h; y++) {
+    let count = 0;
+    for (let x = x0; x < x1; x++) count += ink[y * w + x];
+    rows[y] = count / width;
+  }
+
+  const centres: { y: number; height: number }[] = [];
+  let start = -1;
+  let weight = 0;
+  let moment = 0;
+  for (let y = 0; y <= h; y++) {
+    const inked = y < h && rows[y] > 0.03;
+    if (inked) {
+      if (start < 0) start = y;
+      weight += rows[y];
+      moment += rows[y] * y;
+    } else if (start >= 0) {
+      const height = y - start;
+      // Skip specks and anything taller than a line, like photos or rules
+      if (height >= 2 && height <= h / 12) centres.push({ y: moment / weight, height });
+      start = -1;
+      weight = 0;
+      moment = 0;
+    }
+  }
+  return centres;
+};
+
+// Chains strip centres left to right into text lines
+const traceLines = (ink: Uint8Array, w: number, h: number) => {
+  const stripWidth = w / STRIP_COUNT;
+  const strips = Array.from({ length: STRIP_COUNT }, (_, s) =>
+    stripLineCentres(ink, w, h, Math.floor(s * stripWidth), Math.floor((s + 1) * stripWidth))
+  );
+
+  const heights = strips.flat().map((c) => c.height).sort((a, b) => a - b);
+  if (heights.length === 0) return [];
+  const tolerance = Math.max(2, heights[heights.length >> 1] * 0.6);
+
+  const lines: { points: LinePoint[]; lastStrip: number }[] = [];
+  strips.forEach((centres, s) => {
+    const x = (s + 0.5) * stripWidth;
+    const claimed = new Set<number>();
+
+    for (const { y } of centres) {
+      let best = -1;
+      let bestDistance = tolerance;
+      lines.forEach((line, i) => {
+        // Allow one empty strip so short words and gaps don't break a line
+        if (claimed.has(i) || s - line.lastStrip > 2) return;
+        const distance = Math.abs(line.points[line.points.length - 1].y - y);
+        if (distance < bestDistance) {
+          best = i;
+          bestDistance = distance;
+        }
+      });
+
+      if (best >= 0) {
+        lines[best].points.push({ x, y });
+        lines[best].lastStrip = s;
+        claimed.add(best);
+      } else {
+        lines.push({ points: [{ x, y }], lastStrip: s });
+        claimed.add(lines.length - 1);
+      }
+    }
+  });
+
+  return lines
+    .map((line) => line.points)
+    .filter((points) => points.length >= STRIP_COUNT * MIN_LINE_COVERAGE);
+};
+
+// Least-squares quadratic through the points, solved by Cramer's rule
+const fitCurve = (points: LinePoint[], w: number): LineCurve | null => {
+  const s = [0, 0, 0, 0, 0];
+  const r = [0, 0, 0];
+  for (const { x, y } of points) {
+    const t = (x - w / 2) / (w / 2);
+    for (let k = 0; k < 5; k++) s[k] += t ** k;
+    for (let k = 0; k < 3; k++) r[k] += y * t ** k;
+  }
+
+  const det3 = (m: number[][]) =>
+    m[0][0] * (m[1][1] * m[2][2] - m[1][2] * m[2][1]) -
+    m[0][1] * (m[1][0] * m[2][2] - m[1][2] * m[2][0]) +
+    m[0][2] * (m[1][0] * m[2][1] - m[1][1] * m[2][0]);
+
+  const m = [
+    [s[4], s[3], s[2]],
+    [s[3], s[2], s[1]],
+    [s[2], s[1], s[0]],
+  ];
+  const rhs = [r[2], r[1], r[0]];
+  const det = det3(m);
+  if (Math.abs(det) < 1e-9) return null;
+
+  const withColumn = (col: number) => m.map((row, i) => row.map((v, j) => (j === col ? rhs[i] : v)));
+  return {
+    a: det3(withColumn(0)) / det,
+    b: det3(withColumn(1)) / det,
+    c: det3(withColumn(2)) / det,
+  };
+};
+
+/**
+ * Flattens the bow of a page photographed from an open book. Text lines are
+ * traced across vertical strips and each is fitted with a quadratic; the
+ * curves are interpolated between neighbouring lines into a vertical
+ * displacement field that straightens every line onto its average height.
+ * Only vertical distortion is corrected, so text squeezed into the gutter
+ * stays narrow but lines become straight enough for Tesseract to follow.
+ * Returns null when there aren't enough text lines to model the page.
+ */
+export const dewarpPage = (source: Source) => {
+  const mask = inkMask(source, ANALYSIS_WIDTH);
+  if (!mask) return null;
+  const { ink, w, h, ratio } = mask;
+
+  const curves = traceLines(ink, w, h)
+    .map((points) => fitCurve(points, w))
+    .filter((curve): curve is LineCurve => curve !== null)
+    // Back to full-size pixels; t is already size independent
+    .map(({ a, b, c }) => ({ a: a / ratio, b: b / ratio, c: c / ratio }))
+    // Mean height of the curve over t in [-1, 1]
+    .map((curve) => ({ ...curve, level: curve.c + curve.a / 3 }))
+    .sort((p, q) => p.level - q.level);
+
+  if (curves.length < MIN_LINES) return null;
+
+  const width = source.width;
+  const height = source.height;
+  const input = document.createElement("canvas");
+  input.width = width;
+  input.height = height;
+  const inCtx = input.getContext("2d");
+  if (!inCtx) throw new Error("Canvas is not supported");
+  inCtx.drawImage(source, 0, 0);
+  const src = inCtx.getImageData(0, 0, width, height);
+
+  const output = document.createElement("canvas");
+  output.width = width;
+  output.height = height;
+  const outCtx = output.getContext("2d");
+  if (!outCtx) throw new Error("Canvas is not supported");
+  const dst = outCtx.createImageData(width, height);
+
+  const ts = Float32Array.from({ length: width }, (_, x) => (x - width / 2) / (width / 2));
+  let upper = 0;
+
+  for (let y = 0; y < height; y++) {
+    // Blend the curvature of the lines above and below this row
+    while (upper < curves.length && curves[upper].level <= y) upper++;
+    const above = curves[Math.max(0, upper - 1)];
+    const below = curves[Math.min(curves.length - 1, upper)];
+    const span = below.level - above.level;
+    const mix = span > 0 ? Math.min(1, Math.max(0, (y - above.level) / span)) : 0;
+    const a = above.a + (below.a - above.a) * mix;
+    const b = above.b + (below.b - above.b) * mix;
+
+    for (let x = 0; x < width; x++) {
+      const t = ts[x];
+      const sy = y + a * (t * t - 1 / 3) + b * t;
+      const y0 = Math.floor(sy);
+      const o = (y * width + x) * 4;
+
+      if (y0 < 0 || y0 >= height - 1) {
+        dst.data[o] = dst.data[o + 1] = dst.data[o + 2] = dst.data[o + 3] = 255;
+        continue;
+      }
+
+      const fy = sy - y0;
+      const i0 = (y0 * width + x) * 4;
+      const i1 = i0 + width * 4;
+      for (let c = 0; c < 4; c++) {
+        dst.data[o + c] = src.data[i0 + c] * (1 - fy) + src.data[i1 + c] * fy;
+      }
+    }
+  }
+
+  outCtx.putImageData(dst, 0, 0);
+  return output;
+};
+
+/**
+ * Finds the spine of a two-page spread as a fraction of the width. Columns
+ * of text flip between ink and paper all the way down, while the gutter is
+ * either a clean margin or a solid shadow, so the column with the fewest
+ * ink transitions near the middle wins. Falls back to the centre.
+ */
+export const detectGutter = (source: Source) => {
+  const mask = inkMask(source, 400);
+  if (!mask) return 0.5;
+  const { ink, w, h } = mask;
+
+  const from = Math.floor(w * (0.5 - GUTTER_SEARCH_BAND));
+  const to = Math.ceil(w * (0.5 + GUTTER_SEARCH_BAND));
+  const transitions = new Float32Array(w);
+  for (let x = from; x < to; x++) {
+    for (let y = 1; y < h; y++) {
+      if (ink[y * w + x] !== ink[(y - 1) * w + x]) transitions[x]++;
+    }
+  }
+
+  let best = Math.round(w / 2);
+  let bestScore = Infinity;
+  for (let x = from + 2; x < to - 2; x++) {
+    // Smooth over a few columns so a single gap between letters can't win
+    let score = 0;
+    for (let dx = -2; dx <= 2; dx++) score += transitions[x + dx];
+    // Prefer the middle when columns tie
+    score += Math.abs(x - w / 2) / w;
+    if (score < bestScore) {
+      bestScore = score;
+      best = x;
+    }
+  }
+
+  return best / w;
+};
+
+/** Cuts a spread into its left and right pages at the given fraction of the width */
+export const splitSpread = (source: Source, gutter: number) => {
+  const cut = Math.round(source.width * gutter);
+  return [
+    [0, cut],
+    [cut, source.width],
+  ].map(([x0, x1]) => {
+    const page = document.createElement("canvas");
+    page.width = Math.max(1, x1 - x0);
+    page.height = source.height;
+    const ctx = page.getContext("2d");
+    if (!ctx) throw new Error("Canvas is not supported");
+    ctx.drawImage(source, x0, 0, page.width, page.height, 0, 0, page.width, page.height);
+    return page;
+  }) as [HTMLCanvasElement, HTMLCanvasElement];
+};
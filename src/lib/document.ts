@@ -0,0 +1,72 @@
+import type { OCRBlock, OCRLanguage } from "@/lib/ocr";
+
+export type PageStatus = "pending" | "processing" | "done" | "error";
+
+export interface DocumentPage {
+  id: string;
+  name: string;
+  /** Image as uploaded or captured */
+  original: string;
+  /** Image after preprocessing; OCR runs on this when present */
+  processed: string | null;
+  status: PageStatus;
+  progress: number;
+  progressStatus: string;
+  text: string;
+  blocks: OCRBlock[];
+  language: OCRLanguage | null;
+}
+
+export interface NewPage {
+  name: string;
+  image: string;
+  /** Already-known text, e.g. from a PDF text layer; the page skips OCR */
+  text?: string;
+}
+
+export const createPage = ({ name, image, text }: NewPage): DocumentPage => ({
+  id: crypto.randomUUID(),
+  name,
+  original: image,
+  processed: null,
+  status: text ? "done" : "pending",
+  progress: text ? 100 : 0,
+  progressStatus: "",
+  text: text ?? "",
+  blocks: [],
+  language: null,
+});
+
+export const readFileAsDataUrl = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (e) => resolve(e.target?.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+export const pageImage = (page: DocumentPage) => page.processed ?? page.original;
+
+export const movePage = (pages: DocumentPage[], from: number, to: number) => {
+  if (to < 0 || to >= pages.length || from === to) return pages;
+  const next = [...pages];
+  const [page] = next.splice(from, 1);
+  next.splice(to, 0, page);
+  return next;
+};
+
+/** Whole-document text, with page markers once there is more than one page */
+export const documentText = (pages: DocumentPage[]) => {
+  const done = pages.filter((page) => page.status === "done" && page.text.trim());
+  if (done.length === 1) return done[0].text;
+
+  return done
+    .map((page) => `--- Page ${pages.indexOf(page) + 1} ---\n${page.text.trim()}`)
+    .join("\n\n");
+};
+
+/** Distinct languages across the document, for the AI study tools prompt */
+export const documentLanguage = (pages: DocumentPage[]) => {
+  const labels = [...new Set(pages.map((page) => page.language?.label).filter(Boolean))];
+  return labels.length > 0 ? labels.join(" and ") : undefined;
+};
@@ -0,0 +1,237 @@
+export type ThresholdMethod = "none" | "otsu" | "sauvola";
+
+export interface FilterSettings {
+  grayscale: boolean;
+  /** -100 to 100 */
+  brightness: number;
+  /** -100 to 100 */
+  contrast: number;
+  /** Divides out uneven lighting such as a hand's shadow or a lamp's hotspot */
+  flattenIllumination: boolean;
+  /** Median filter radius in pixels, 0 to disable */
+  denoise: number;
+  /** Unsharp mask amount, 0 to disable */
+  sharpen: number;
+  threshold: ThresholdMethod;
+  /** Sauvola sensitivity; higher keeps less faint ink */
+  sauvolaK: number;
+  /** Sauvola window size in pixels */
+  sauvolaWindow: number;
+}
+
+export const DEFAULT_FILTER_SETTINGS: FilterSettings = {
+  grayscale: false,
+  brightness: 0,
+  contrast: 0,
+  flattenIllumination: false,
+  denoise: 0,
+  sharpen: 0,
+  threshold: "none",
+  sauvolaK: 0.34,
+  sauvolaWindow: 31,
+};
+
+export const hasActiveFilters = (settings: FilterSettings) =>
+  (Object.keys(DEFAULT_FILTER_SETTINGS) as (keyof FilterSettings)[]).some(
+    (key) => key !== "sauvolaK" && key !== "sauvolaWindow" && settings[key] !== DEFAULT_FILTER_SETTINGS[key]
+  );
+
+interface Pixels {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+type Channel = Float32Array;
+
+export const otsuThreshold = (gray: ArrayLike<number>) => {
+  const histogram = new Array<number>(256).fill(0);
+  for (let i = 0; i < gray.length; i++) {
+    histogram[Math.max(0, Math.min(255, Math.round(gray[i])))]++;
+  }
+
+  const total = gray.length;
+  let sum = 0;
+  for (let i = 0; i < 256; i++) sum += i * histogram[i];
+
+  let sumBackground = 0;
+  let weightBackground = 0;
+  let best = 0;
+  let threshold = 127;
+
+  for (let i = 0; i < 256; i++) {
+    weightBackground += histogram[i];
+    if (weightBackground === 0) continue;
+    const weightForeground = total - weightBackground;
+    if (weightForeground === 0) break;
+
+    sumBackground += i * histogram[i];
+    const meanBackground = sumBackground / weightBackground;
+    const meanForeground = (sum - sumBackground) / weightForeground;
+    const variance = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+    if (variance > best) {
+      best = variance;
+      threshold = i;
+    }
+  }
+
+  return threshold;
+};
+
+// Summed-area table with a zero row and column, so any box sum is four lookups
+const integralImage = (channel: Channel, width: number, height: number, squared = false) => {
+  const table = new Float64Array((width + 1) * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      const v = channel[y * width + x];
+      rowSum += squared ? v * v : v;
+      table[(y + 1) * (width + 1) + x + 1] = table[y * (width + 1) + x + 1] + rowSum;
+    }
+  }
+  return table;
+};
+
+const boxMean = (
+  table: Float64Array,
+  width: number,
+  height: number,
+  x: number,
+  y: number,
+  radius: number
+) => {
+  const x0 = Math.max(0, x - radius);
+  const y0 = Math.max(0, y - radius);
+  const x1 = Math.min(width, x + radius + 1);
+  const y1 = Math.min(height, y + radius + 1);
+  const stride = width + 1;
+  const sum = table[y1 * stride + x1] - table[y0 * stride + x1] - table[y1 * stride + x0] + table[y0 * stride + x0];
+  return sum / ((x1 - x0) * (y1 - y0));
+};
+
+const boxBlur = (channel: Channel, width: number, height: number, radius: number): Channel => {
+  const table = integralImage(channel, width, height);
+  const out = new Float32Array(channel.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      out[y * width + x] = boxMean(table, width, height, x, y, radius);
+    }
+  }
+  return out;
+};
+
+const flattenIllumination = (channel: Channel, width: number, height: number): Channel => {
+  // Large enough to smooth over letters, small enough to follow a shadow edge
+  const radius = Math.max(8, Math.round(Math.max(width, height) / 40));
+  const background = boxBlur(channel, width, height, radius);
+  return channel.map((v, i) => Math.min(255, (v / Math.max(1, background[i])) * 240));
+};
+
+const adjustBrightnessContrast = (channel: Channel, brightness: number, contrast: number): Channel => {
+  const factor = ((100 + contrast) / 100) ** 2;
+  const offset = brightness * 2.55;
+  return channel.map((v) => (v - 128) * factor + 128 + offset);
+};
+
+const medianFilter = (channel: Channel, width: number, height: number, radius: number): Channel => {
+  const out = new Float32Array(channel.length);
+  const window: number[] = [];
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      window.length = 0;
+      for (let dy = -radius; dy <= radius; dy++) {
+        const yy = Math.min(height - 1, Math.max(0, y + dy));
+        for (let dx = -radius; dx <= radius; dx++) {
+          const xx = Math.min(width - 1, Math.max(0, x + dx));
+          window.push(channel[yy * width + xx]);
+        }
+      }
+      window.sort((a, b) => a - b);
+      out[y * width + x] = window[window.length >> 1];
+    }
+  }
+  return out;
+};
+
+const unsharpMask = (channel: Channel, width: number, height: number, amount: number): Channel => {
+  const blurred = boxBlur(channel, width, height, 2);
+  return channel.map((v, i) => v + amount * (v - blurred[i]));
+};
+
+const otsuBinarize = (channel: Channel): Channel => {
+  const threshold = otsuThreshold(channel);
+  return channel.map((v) => (v > threshold ? 255 : 0));
+};
+
+// Sauvola adapts the threshold to local mean and contrast, which copes with
+// uneven lighting and faint pencil far better than a single global cut-off.
+const sauvolaBinarize = (
+  channel: Channel,
+  width: number,
+  height: number,
+  windowSize: number,
+  k: number
+): Channel => {
+  const radius = Math.max(1, Math.floor(windowSize / 2));
+  const sum = integralImage(channel, width, height);
+  const sumSquares = integralImage(channel, width, height, true);
+  const out = new Float32Array(channel.length);
+  const dynamicRange = 128;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const mean = boxMean(sum, width, height, x, y, radius);
+      const meanSquares = boxMean(sumSquares, width, height, x, y, radius);
+      const deviation = Math.sqrt(Math.max(0, meanSquares - mean * mean));
+      const threshold = mean * (1 + k * (deviation / dynamicRange - 1));
+      out[y * width + x] = channel[y * width + x] > threshold ? 255 : 0;
+    }
+  }
+  return out;
+};
+
+/**
+ * Runs the enabled filters in a fixed order: grayscale, illumination
+ * flattening, brightness/contrast, denoise, sharpen, then thresholding.
+ * Thresholding and grayscale work on luminance only; otherwise each colour
+ * channel is filtered separately.
+ */
+export const applyFilterPipeline = (pixels: Pixels, settings: FilterSettings): Uint8ClampedArray => {
+  const { data, width, height } = pixels;
+  const size = width * height;
+  const monochrome = settings.grayscale || settings.threshold !== "none";
+
+  let channels: Channel[] = monochrome
+    ? [Float32Array.from({ length: size }, (_, i) =>
+        0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]
+      )]
+    : [0, 1, 2].map((c) => Float32Array.from({ length: size }, (_, i) => data[i * 4 + c]));
+
+  if (settings.flattenIllumination) {
+    channels = channels.map((ch) => flattenIllumination(ch, width, height));
+  }
+  if (settings.brightness !== 0 || settings.contrast !== 0) {
+    channels = channels.map((ch) => adjustBrightnessContrast(ch, settings.brightness, settings.contrast));
+  }
+  if (settings.denoise > 0) {
+    channels = channels.map((ch) => medianFilter(ch, width, height, settings.denoise));
+  }
+  if (settings.sharpen > 0) {
+    channels = channels.map((ch) => unsharpMask(ch, width, height, settings.sharpen));
+  }
+  if (settings.threshold === "otsu") {
+    channels = [otsuBinarize(channels[0])];
+  } else if (settings.threshold === "sauvola") {
+    channels = [sauvolaBinarize(channels[0], width, height, settings.sauvolaWindow, settings.sauvolaK)];
+  }
+
+  const out = new Uint8ClampedArray(data.length);
+  for (let i = 0; i < size; i++) {
+    out[i * 4] = channels[0][i];
+    out[i * 4 + 1] = channels[monochrome ? 0 : 1][i];
+    out[i * 4 + 2] = channels[monochrome ? 0 : 2][i];
+    out[i * 4 + 3] = data[i * 4 + 3];
+  }
+  return out;
+};
@@ -0,0 +1,145 @@
+import { detectDocumentQuad, quadArea, type Point, type Quad } from "@/lib/perspective";
+
+// Frames are judged on a small copy; blur and shake show up at any size
+const ANALYSIS_WIDTH = 320;
+// Laplacian variance below this is too soft for Tesseract
+export const MIN_SHARPNESS = 60;
+// ...and anything above this counts as fully sharp
+const SHARP_SHARPNESS = 300;
+// Mean per-pixel change between frames, on a 0-255 scale
+export const MAX_MOTION = 6;
+export const AUTO_CAPTURE_SCORE = 75;
+// Mean brightness limits, 0-255
+const MIN_BRIGHTNESS = 70;
+const MAX_BRIGHTNESS = 235;
+// Share of the frame the page should cover
+const MIN_COVERAGE = 0.35;
+const MAX_COVERAGE = 0.92;
+// Opposite page edges differing by more than this mean the camera is tilted
+const MAX_KEYSTONE = 0.15;
+
+export interface FrameQuality {
+  /** Variance of the Laplacian; higher is sharper */
+  sharpness: number;
+  /** Mean absolute change from the previous frame; null for the first frame */
+  motion: number | null;
+  /** Mean luminance, 0-255 */
+  brightness: number;
+  /** Detected page corners in video pixels */
+  outline: Quad | null;
+  /** Share of the frame covered by the detected page */
+  coverage: number;
+  /** 0 to 100 */
+  score: number;
+  /** Nothing for the user to fix and a score good enough to auto-capture */
+  acceptable: boolean;
+}
+
+export interface FrameSample {
+  quality: FrameQuality;
+  /** Grayscale thumbnail, passed back in to measure motion on the next frame */
+  gray: Float32Array;
+}
+
+const laplacianVariance = (gray: Float32Array, w: number, h: number) => {
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+  for (let y = 1; y < h - 1; y++) {
+    for (let x = 1; x < w - 1; x++) {
+      const i = y * w + x;
+      const v = gray[i - w] + gray[i + w] + gray[i - 1] + gray[i + 1] - 4 * gray[i];
+      sum += v;
+      sumSquares += v * v;
+      count++;
+    }
+  }
+  if (count === 0) return 0;
+  const mean = sum / count;
+  return sumSquares / count - mean * mean;
+};
+
+const meanDifference = (a: Float32Array, b: Float32Array) => {
+  let total = 0;
+  for (let i = 0; i < a.length; i++) total += Math.abs(a[i] - b[i]);
+  return total / a.length;
+};
+
+/**
+ * Scores the current video frame for OCR. Sharpness carries the most weight
+ * since blur is the usual reason a scan reads badly, then steadiness, then
+ * how much of the frame the detected page fills.
+ */
+export const analyzeFrame = (video: HTMLVideoElement, previous: Float32Array | null): FrameSample | null => {
+  if (!video.videoWidth || !video.videoHeight) return null;
+
+  const ratio = Math.min(1, ANALYSIS_WIDTH / video.videoWidth);
+  const w = Math.round(video.videoWidth * ratio);
+  const h = Math.round(video.videoHeight * ratio);
+  const canvas = document.createElement("canvas");
+  canvas.width = w;
+  canvas.height = h;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) return null;
+  ctx.drawImage(video, 0, 0, w, h);
+  const { data } = ctx.getImageData(0, 0, w, h);
+
+  const gray = new Float32Array(w * h);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+
+  const sharpness = laplacianVariance(gray, w, h);
+  const brightness = gray.reduce((sum, v) => sum + v, 0) / gray.length;
+  const motion = previous && previous.length === gray.length ? meanDifference(gray, previous) : null;
+
+  const thumbnailOutline = detectDocumentQuad(canvas);
+  const outline = thumbnailOutline
+    ? (thumbnailOutline.map((p) => ({ x: p.x / ratio, y: p.y / ratio })) as Quad)
+    : null;
+  const coverage = thumbnailOutline ? quadArea(thumbnailOutline) / (w * h) : 0;
+
+  const sharpScore = Math.min(1, Math.max(0, (sharpness - MIN_SHARPNESS) / (SHARP_SHARPNESS - MIN_SHARPNESS)));
+  const steadyScore = motion === null ? 0 : Math.max(0, 1 - motion / (MAX_MOTION * 2));
+  // A page filling about two thirds of the frame is ideal
+  const pageScore = Math.min(1, coverage / 0.65);
+  const score = Math.round(100 * (0.5 * sharpScore + 0.3 * steadyScore + 0.2 * pageScore));
+
+  const measured = { sharpness, motion, brightness, outline, coverage, score };
+  return {
+    gray,
+    quality: { ...measured, acceptable: frameProblem(measured) === null },
+  };
+};
+
+const edgeLength = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * The single most useful thing to tell the user about the current frame,
+ * checked in the order that matters: light first, since nothing else can be
+ * judged in the dark, then framing, angle and finally steadiness. Null when
+ * the frame is good enough to capture, so guidance and auto-capture agree.
+ */
+const frameProblem = (quality: Omit<FrameQuality, "acceptable">) => {
+  if (quality.brightness < MIN_BRIGHTNESS) return "Too dark. Find more light";
+  if (quality.brightness > MAX_BRIGHTNESS) return "Too bright. Avoid glare on the page";
+
+  const { outline } = quality;
+  if (!outline) return "Point the camera at the page";
+  if (quality.coverage < MIN_COVERAGE) return "Move closer";
+  // A page filling the whole frame is fine; one nearly filling it has edges about to be cut off
+  if (quality.coverage > MAX_COVERAGE && quality.coverage < 1) return "Move back so the whole page fits";
+
+  const [tl, tr, br, bl] = outline;
+  const top = edgeLength(tl, tr);
+  const bottom = edgeLength(bl, br);
+  if (top < bottom * (1 - MAX_KEYSTONE)) return "Tilt down to face the page";
+  if (bottom < top * (1 - MAX_KEYSTONE)) return "Tilt up to face the page";
+
+  if (quality.motion === null || quality.motion > MAX_MOTION) return "Hold still";
+  if (quality.sharpness < MIN_SHARPNESS) return "Focusing...";
+  if (quality.score < AUTO_CAPTURE_SCORE) return "Hold still";
+  return null;
+};
+
+export const frameGuidance = (quality: FrameQuality) => frameProblem(quality) ?? "Looks good. Hold still";
@@ -0,0 +1,238 @@
+import type { DocumentPage } from "@/lib/document";
+import type { Flashcard, QAPair, QuizQuestion, StudyTool } from "@/lib/study-tools";
+
+/** What the library list needs, kept apart from the heavy page images */
+export interface LibraryDocumentSummary {
+  id: string;
+  title: string;
+  tags: string[];
+  createdAt: number;
+  updatedAt: number;
+  pageCount: number;
+  languages: string[];
+  /** Small JPEG of the first page */
+  thumbnail: string | null;
+  /** Approximate bytes used by the stored content */
+  size: number;
+}
+
+export interface LibraryDocumentContent {
+  id: string;
+  /** Original and processed images, OCR text and word boxes */
+  pages: DocumentPage[];
+  qaHistory: QAPair[];
+  studyMaterials: Partial<Record<StudyTool, string>>;
+  flashcards: Flashcard[] | null;
+  quiz: QuizQuestion[] | null;
+}
+
+export type LibraryDocument = LibraryDocumentSummary & Omit<LibraryDocumentContent, "id">;
+
+export type LibraryDocumentInput = Omit<LibraryDocumentContent, "id"> &
+  Partial<Pick<LibraryDocumentSummary, "id" | "title" | "tags">>;
+
+export interface StorageUsage {
+  used: number;
+  quota: number;
+}
+
+interface LibraryState {
+  documents: LibraryDocumentSummary[];
+  loaded: boolean;
+  usage: StorageUsage | null;
+}
+
+const DB_NAME = "mfanekiso-library";
+const DB_VERSION = 1;
+const SUMMARIES = "summaries";
+const CONTENTS = "contents";
+const THUMBNAIL_SIZE = 240;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SUMMARIES)) db.createObjectStore(SUMMARIES, { keyPath: "id" });
+      if (!db.objectStoreNames.contains(CONTENTS)) db.createObjectStore(CONTENTS, { keyPath: "id" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }).catch((error) => {
+    // Let the next call try again, e.g. after the user frees up space
+    dbPromise = null;
+    throw error;
+  });
+  return dbPromise;
+};
+
+const promisify = <T,>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new DOMException("Transaction aborted", "AbortError"));
+  });
+
+let state: LibraryState = { documents: [], loaded: false, usage: null };
+const listeners = new Set<() => void>();
+
+const setState = (changes: Partial<LibraryState>) => {
+  state = { ...state, ...changes };
+  listeners.forEach((listener) => listener());
+};
+
+const sortByUpdated = (documents: LibraryDocumentSummary[]) =>
+  [...documents].sort((a, b) => b.updatedAt - a.updatedAt);
+
+const refreshUsage = async () => {
+  if (!navigator.storage?.estimate) return;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  setState({ usage: { used: usage, quota } });
+};
+
+export const subscribeLibrary = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getLibraryState = () => state;
+
+let loading: Promise<void> | null = null;
+
+/** Reads the document list once; later calls reuse the first load */
+export const loadLibrary = () => {
+  loading ??= (async () => {
+    try {
+      const db = await openDatabase();
+      const documents = await promisify(
+        db.transaction(SUMMARIES).objectStore(SUMMARIES).getAll() as IDBRequest<LibraryDocumentSummary[]>
+      );
+      setState({ documents: sortByUpdated(documents), loaded: true });
+      await refreshUsage();
+    } catch (error) {
+      console.error("Could not open the document library:", error);
+      loading = null;
+      setState({ loaded: true });
+    }
+  })();
+  return loading;
+};
+
+// Last thumbnail per document, so autosaves don't redraw an unchanged cover
+const thumbnails = new Map<string, { source: string; thumbnail: string | null }>();
+
+const createThumbnail = (image: string) =>
+  new Promise<string | null>((resolve) => {
+    const img = new Image();
+    img.onload = () => {
+      const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(img.width, img.height));
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.round(img.width * scale);
+      canvas.height = Math.round(img.height * scale);
+      canvas.getContext("2d")?.drawImage(img, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL("image/jpeg", 0.7));
+    };
+    img.onerror = () => resolve(null);
+    img.src = image;
+  });
+
+/**
+ * Creates a document, or updates it when `id` is given. Resolves with null
+ * if that document has since been deleted, so an autosave can't bring it
+ * back. Pages caught mid-OCR are stored as pending so they can be processed
+ * again after reopening.
+ */
+export const saveDocument = async (input: LibraryDocumentInput) => {
+  const now = Date.now();
+  const existing = input.id ? state.documents.find((doc) => doc.id === input.id) : undefined;
+  if (input.id && !existing) return null;
+  const id = input.id ?? crypto.randomUUID();
+
+  const content: LibraryDocumentContent = {
+    id,
+    pages: input.pages.map((page) =>
+      page.status === "processing" ? { ...page, status: "pending", progress: 0, progressStatus: "" } : page
+    ),
+    qaHistory: input.qaHistory,
+    studyMaterials: input.studyMaterials,
+    flashcards: input.flashcards,
+    quiz: input.quiz,
+  };
+
+  const cover = content.pages[0] ? (content.pages[0].processed ?? content.pages[0].original) : null;
+  const cached = thumbnails.get(id);
+  const thumbnail = !cover ? null : cached?.source === cover ? cached.thumbnail : await createThumbnail(cover);
+  if (cover) thumbnails.set(id, { source: cover, thumbnail });
+
+  const summary: LibraryDocumentSummary = {
+    id,
+    title: input.title ?? existing?.title ?? content.pages[0]?.name ?? "Untitled document",
+    tags: input.tags ?? existing?.tags ?? [],
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+    pageCount: content.pages.length,
+    languages: [...new Set(content.pages.map((page) => page.language?.label).filter(Boolean))] as string[],
+    thumbnail,
+    // Data URLs are ASCII, so string length is close to the stored size
+    size: JSON.stringify(content).length,
+  };
+
+  const db = await openDatabase();
+  const transaction = db.transaction([SUMMARIES, CONTENTS], "readwrite");
+  transaction.objectStore(SUMMARIES).put(summary);
+  transaction.objectStore(CONTENTS).put(content);
+  await transactionDone(transaction);
+
+  setState({ documents: sortByUpdated([summary, ...state.documents.filter((doc) => doc.id !== id)]) });
+  refreshUsage().catch(() => {});
+  return summary;
+};
+
+export const getDocument = async (id: string): Promise<LibraryDocument | null> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([SUMMARIES, CONTENTS]);
+  const [summary, content] = await Promise.all([
+    promisify(transaction.objectStore(SUMMARIES).get(id) as IDBRequest<LibraryDocumentSummary | undefined>),
+    promisify(transaction.objectStore(CONTENTS).get(id) as IDBRequest<LibraryDocumentContent | undefined>),
+  ]);
+  if (!summary || !content) return null;
+
+  const { id: _id, ...rest } = content;
+  return { ...summary, ...rest };
+};
+
+/** Changes the title or tags without rewriting the pages */
+export const updateDocumentDetails = async (id: string, changes: Partial<Pick<LibraryDocumentSummary, "title" | "tags">>) => {
+  const current = state.documents.find((doc) => doc.id === id);
+  if (!current) return;
+  const summary = { ...current, ...changes, updatedAt: Date.now() };
+
+  const db = await openDatabase();
+  const transaction = db.transaction(SUMMARIES, "readwrite");
+  transaction.objectStore(SUMMARIES).put(summary);
+  await transactionDone(transaction);
+
+  setState({ documents: sortByUpdated(state.documents.map((doc) => (doc.id === id ? summary : doc))) });
+};
+
+export const deleteDocument = async (id: string) => {
+  const db = await openDatabase();
+  const transaction = db.transaction([SUMMARIES, CONTENTS], "readwrite");
+  transaction.objectStore(SUMMARIES).delete(id);
+  transaction.objectStore(CONTENTS).delete(id);
+  await transactionDone(transaction);
+
+  thumbnails.delete(id);
+  setState({ documents: state.documents.filter((doc) => doc.id !== id) });
+  refreshUsage().catch(() => {});
+};
@@ -0,0 +1,265 @@
+import Tesseract, { createWorker, OEM } from "tesseract.js";
+
+export interface OCRLanguage {
+  /** Value stored in state and sent to the AI study tools */
+  code: string;
+  label: string;
+  /** Tesseract traineddata to load, joined with "+" for combos */
+  traineddata: string;
+  /**
+   * Tesseract has no isiXhosa or isiZulu models, so those fall back to the
+   * English Latin-script model with its English dictionary switched off.
+   */
+  disableDictionary?: boolean;
+}
+
+export const AUTO_LANGUAGE = "auto";
+
+/** Words Tesseract is less sure about than this are flagged for review */
+export const LOW_CONFIDENCE_THRESHOLD = 70;
+
+export interface BoundingBox {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+export interface OCRWord {
+  id: string;
+  text: string;
+  confidence: number;
+  bbox: BoundingBox;
+  /** Set once a reviewer has fixed the word by hand */
+  corrected?: boolean;
+}
+
+export interface OCRLine {
+  id: string;
+  text: string;
+  confidence: number;
+  bbox: BoundingBox;
+  words: OCRWord[];
+}
+
+export interface OCRBlock {
+  id: string;
+  bbox: BoundingBox;
+  lines: OCRLine[];
+}
+
+export interface OCRResult {
+  text: string;
+  confidence: number;
+  blocks: OCRBlock[];
+}
+
+export const OCR_LANGUAGES: OCRLanguage[] = [
+  { code: "eng", label: "English", traineddata: "eng" },
+  { code: "afr", label: "Afrikaans", traineddata: "afr" },
+  { code: "xho", label: "isiXhosa", traineddata: "eng", disableDictionary: true },
+  { code: "zul", label: "isiZulu", traineddata: "eng", disableDictionary: true },
+  { code: "fra", label: "French", traineddata: "fra" },
+  { code: "eng+afr", label: "English + Afrikaans", traineddata: "eng+afr" },
+  { code: "eng+xho", label: "English + isiXhosa", traineddata: "eng", disableDictionary: true },
+  { code: "eng+zul", label: "English + isiZulu", traineddata: "eng", disableDictionary: true },
+  { code: "eng+fra", label: "English + French", traineddata: "eng+fra" },
+];
+
+// Scripts reported by Tesseract's orientation and script detection that we
+// can map straight to a model without a second pass.
+const SCRIPT_LANGUAGES: Record<string, OCRLanguage> = {
+  Cyrillic: { code: "rus", label: "Russian", traineddata: "rus" },
+  Arabic: { code: "ara", label: "Arabic", traineddata: "ara" },
+  Greek: { code: "ell", label: "Greek", traineddata: "ell" },
+  Han: { code: "chi_sim", label: "Chinese", traineddata: "chi_sim" },
+  Hangul: { code: "kor", label: "Korean", traineddata: "kor" },
+  Japanese: { code: "jpn", label: "Japanese", traineddata: "jpn" },
+  Devanagari: { code: "hin", label: "Hindi", traineddata: "hin" },
+};
+
+// Frequent short words used to tell Latin-script languages apart
+const STOPWORDS: Record<string, string[]> = {
+  eng: ["the", "and", "of", "to", "is", "in", "that", "it", "for", "with", "are", "this", "was", "on", "be"],
+  afr: ["die", "en", "van", "is", "nie", "het", "in", "te", "dat", "wat", "vir", "op", "met", "sy", "word"],
+  xho: ["ukuba", "kwaye", "ngoko", "kakhulu", "ndi", "uku", "kuba", "nge", "apha", "oko", "ngoku", "abantu", "yonke", "ukwenza", "kule"],
+  zul: ["ukuthi", "futhi", "kakhulu", "ngoba", "uku", "kodwa", "lapho", "noma", "abantu", "yonke", "ukwenza", "kule", "ngakho", "manje", "khona"],
+  fra: ["le", "la", "les", "de", "des", "et", "est", "une", "un", "du", "que", "pour", "dans", "sur", "pas"],
+};
+
+type ProgressCallback = (status: string, progress: number) => void;
+
+export const getLanguage = (code: string): OCRLanguage | undefined =>
+  OCR_LANGUAGES.find((lang) => lang.code === code) ??
+  Object.values(SCRIPT_LANGUAGES).find((lang) => lang.code === code);
+
+const dictionaryConfig = (language: OCRLanguage) =>
+  language.disableDictionary
+    ? { load_system_dawg: "0", load_freq_dawg: "0" }
+    : undefined;
+
+const scoreLatinText = (text: string) => {
+  const words = text.toLowerCase().match(/[a-zà-ÿ]+/g) ?? [];
+  const scores: Record<string, number> = {};
+
+  for (const [code, stopwords] of Object.entries(STOPWORDS)) {
+    scores[code] = words.filter((word) =>
+      stopwords.some((stopword) => word === stopword || (stopword.length > 3 && word.startsWith(stopword)))
+    ).length;
+  }
+
+  return Object.entries(scores).sort((a, b) => b[1] - a[1]);
+};
+
+/**
+ * Picks the traineddata for an image before the real recognition pass:
+ * script detection first, then a quick dictionary-free Latin pass scored
+ * against stopword lists. Falls back to English when nothing stands out.
+ */
+export const detectLanguage = async (
+  image: Tesseract.ImageLike,
+  onProgress?: ProgressCallback
+): Promise<OCRLanguage> => {
+  const english = getLanguage("eng")!;
+
+  onProgress?.("Detecting script", 0);
+  const osdWorker = await createWorker("osd", OEM.TESSERACT_ONLY, {
+    legacyCore: true,
+    legacyLang: true,
+  });
+
+  try {
+    const { data } = await osdWorker.detect(image);
+    if (data.script && SCRIPT_LANGUAGES[data.script]) {
+      return SCRIPT_LANGUAGES[data.script];
+    }
+  } catch (error) {
+    console.warn("Script detection failed, assuming Latin:", error);
+  } finally {
+    await osdWorker.terminate();
+  }
+
+  const sampleWorker = await createWorker(
+    "eng",
+    OEM.LSTM_ONLY,
+    {
+      logger: (m) => {
+        if (m.status === "recognizing text") {
+          onProgress?.("Detecting language", m.progress);
+        }
+      },
+    },
+    dictionaryConfig({ ...english, disableDictionary: true })
+  );
+
+  try {
+    const { data } = await sampleWorker.recognize(image);
+    const [[best, bestScore], [second, secondScore]] = scoreLatinText(data.text);
+
+    if (bestScore === 0) return english;
+
+    // A strong runner-up means the page mixes languages, e.g. English notes
+    // with Afrikaans terms, so recognise with both models loaded.
+    if (secondScore >= bestScore * 0.4) {
+      const combo = [best, second].includes("eng")
+        ? getLanguage(`eng+${best === "eng" ? second : best}`)
+        : undefined;
+      if (combo) return combo;
+    }
+
+    return getLanguage(best) ?? english;
+  } finally {
+    await sampleWorker.terminate();
+  }
+};
+
+const toBoundingBox = ({ x0, y0, x1, y1 }: Tesseract.Bbox): BoundingBox => ({ x0, y0, x1, y1 });
+
+// Tesseract nests lines under paragraphs; we only keep the levels the
+// results panel links to, with stable ids for hover and correction.
+const toBlocks = (blocks: Tesseract.Block[] | null): OCRBlock[] =>
+  (blocks ?? []).map((block, b) => ({
+    id: `b${b}`,
+    bbox: toBoundingBox(block.bbox),
+    lines: block.paragraphs
+      .flatMap((paragraph) => paragraph.lines)
+      .map((line, l) => ({
+        id: `b${b}-l${l}`,
+        text: line.text.trim(),
+        confidence: line.confidence,
+        bbox: toBoundingBox(line.bbox),
+        words: line.words.map((word, w) => ({
+          id: `b${b}-l${l}-w${w}`,
+          text: word.text,
+          confidence: word.confidence,
+          bbox: toBoundingBox(word.bbox),
+        })),
+      })),
+  }));
+
+export const getWords = (blocks: OCRBlock[]) =>
+  blocks.flatMap((block) => block.lines.flatMap((line) => line.words));
+
+/** Rebuilds plain text from (possibly corrected) layout data */
+export const blocksToText = (blocks: OCRBlock[]) =>
+  blocks
+    .map((block) =>
+      block.lines.map((line) => line.words.map((word) => word.text).join(" ")).join("\n")
+    )
+    .join("\n\n");
+
+export const correctWord = (blocks: OCRBlock[], wordId: string, text: string): OCRBlock[] =>
+  blocks.map((block) => ({
+    ...block,
+    lines: block.lines.map((line) => {
+      if (!line.words.some((word) => word.id === wordId)) return line;
+      const words = line.words.map((word) =>
+        word.id === wordId ? { ...word, text, confidence: 100, corrected: true } : word
+      );
+      return { ...line, words, text: words.map((word) => word.text).join(" ") };
+    }),
+  }));
+
+export const recognizeText = async (
+  image: Tesseract.ImageLike,
+  language: OCRLanguage,
+  onProgress?: ProgressCallback
+): Promise<OCRResult> => {
+  const worker = await createWorker(
+    language.traineddata,
+    OEM.LSTM_ONLY,
+    {
+      logger: (m) => {
+        if (m.status === "recognizing text") {
+          onProgress?.("Recognizing text", m.progress);
+        }
+      },
+    },
+    dictionaryConfig(language)
+  );
+
+  try {
+    const { data } = await worker.recognize(image, {}, { text: true, blocks: true });
+    return {
+      text: data.text,
+      confidence: data.confidence,
+      blocks: toBlocks(data.blocks),
+    };
+  } finally {
+    await worker.terminate();
+  }
+};
+
+/** Recognises one image, running language detection first for "auto" */
+export const runOCR = async (
+  image: Tesseract.ImageLike,
+  languageCode: string,
+  onProgress?: ProgressCallback
+) => {
+  const language = languageCode === AUTO_LANGUAGE
+    ? await detectLanguage(image, onProgress)
+    : getLanguage(languageCode) ?? getLanguage("eng")!;
+
+  const result = await recognizeText(image, language, onProgress);
+  return { result, language };
+};
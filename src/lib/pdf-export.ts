@@ -0,0 +1,288 @@
+import { jsPDF } from "jspdf";
+import dejaVuSansUrl from "dejavu-fonts-ttf/ttf/DejaVuSans.ttf?url";
+import dejaVuSansBoldUrl from "dejavu-fonts-ttf/ttf/DejaVuSans-Bold.ttf?url";
+import { getWords } from "@/lib/ocr";
+import { pageImage, type DocumentPage } from "@/lib/document";
+
+// Pages are laid out at A4 width with the scan's own aspect ratio
+const PAGE_WIDTH_PT = 595.28;
+const JPEG_QUALITY = 0.85;
+
+// jsPDF's built-in fonts only cover WinAnsi, which mangles isiXhosa
+// diacritics, Greek, Cyrillic and the like, so we embed DejaVu Sans.
+const UNICODE_FONT = "DejaVuSans";
+
+let fontFiles: Promise<{ regular: string; bold: string }> | null = null;
+
+const fetchFontAsBase64 = async (url: string) => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Could not load font: ${response.status}`);
+  const bytes = new Uint8Array(await response.arrayBuffer());
+
+  // Chunked so large fonts don't overflow the argument limit of fromCharCode
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const loadUnicodeFont = async (doc: jsPDF) => {
+  fontFiles ??= Promise.all([
+    fetchFontAsBase64(dejaVuSansUrl),
+    fetchFontAsBase64(dejaVuSansBoldUrl),
+  ]).then(([regular, bold]) => ({ regular, bold }));
+
+  let files: { regular: string; bold: string };
+  try {
+    files = await fontFiles;
+  } catch (error) {
+    fontFiles = null;
+    throw error;
+  }
+
+  doc.addFileToVFS(`${UNICODE_FONT}.ttf`, files.regular);
+  doc.addFileToVFS(`${UNICODE_FONT}-Bold.ttf`, files.bold);
+  doc.addFont(`${UNICODE_FONT}.ttf`, UNICODE_FONT, "normal");
+  doc.addFont(`${UNICODE_FONT}-Bold.ttf`, UNICODE_FONT, "bold");
+  doc.setFont(UNICODE_FONT, "normal");
+};
+
+interface PreparedImage {
+  dataUrl: string;
+  width: number;
+  height: number;
+}
+
+// Re-encodes as JPEG so a document of phone photos doesn't turn into a
+// hundred-megabyte PNG-in-PDF.
+const prepareImage = (src: string) =>
+  new Promise<PreparedImage>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = img.naturalWidth;
+      canvas.height = img.naturalHeight;
+      const ctx = canvas.getContext("2d");
+      if (!ctx) {
+        reject(new Error("Canvas is not supported"));
+        return;
+      }
+      ctx.fillStyle = "#ffffff";
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(img, 0, 0);
+      resolve({
+        dataUrl: canvas.toDataURL("image/jpeg", JPEG_QUALITY),
+        width: canvas.width,
+        height: canvas.height,
+      });
+    };
+    img.onerror = () => reject(new Error("Could not load page image"));
+    img.src = src;
+  });
+
+const addInvisibleWords = (doc: jsPDF, page: DocumentPage, scale: number) => {
+  for (const word of getWords(page.blocks)) {
+    const text = word.text.trim();
+    if (!text) continue;
+
+    const width = (word.bbox.x1 - word.bbox.x0) * scale;
+    const height = (word.bbox.y1 - word.bbox.y0) * scale;
+    if (width <= 0 || height <= 0) continue;
+
+    doc.setFontSize(height);
+    const naturalWidth = doc.getTextWidth(text);
+
+    // Stretch each word to its box so selections line up with the scan
+    doc.text(text, word.bbox.x0 * scale, word.bbox.y1 * scale, {
+      baseline: "bottom",
+      renderingMode: "invisible",
+      horizontalScale: naturalWidth > 0 ? width / naturalWidth : 1,
+    });
+  }
+};
+
+// Pages without word boxes (PDF text layers) still get their text, just
+// not positioned over the matching region. The font shrinks until every
+// line fits on the page, since text past the bottom edge can't be selected.
+const addInvisibleText = (doc: jsPDF, page: DocumentPage, pageWidth: number, pageHeight: number) => {
+  const margin = 20;
+  const lineHeightFactor = 1.15;
+  const available = pageHeight - 2 * margin;
+  let fontSize = 8;
+  let lines: string[] = [];
+
+  // Smaller text wraps into no more lines, so one shrink almost always fits
+  for (;;) {
+    doc.setFontSize(fontSize);
+    lines = doc.splitTextToSize(page.text, pageWidth - 2 * margin);
+    const height = lines.length * fontSize * lineHeightFactor;
+    if (height <= available || fontSize <= 1) break;
+    fontSize = Math.max(1, fontSize * (available / height));
+  }
+
+  doc.text(lines, margin, margin, { baseline: "top", renderingMode: "invisible", lineHeightFactor });
+};
+
+/**
+ * Builds a PDF that looks like the original scans but carries the OCR text
+ * as an invisible layer, so it can be searched, selected and indexed.
+ */
+export const exportSearchablePdf = async (pages: DocumentPage[], fileName: string) => {
+  const donePages = pages.filter((page) => page.status === "done");
+  if (donePages.length === 0) throw new Error("No processed pages to export");
+
+  let doc: jsPDF | null = null;
+
+  for (const page of donePages) {
+    const image = await prepareImage(pageImage(page));
+    const scale = PAGE_WIDTH_PT / image.width;
+    const pageHeight = image.height * scale;
+    const orientation = image.width > image.height ? "landscape" : "portrait";
+
+    if (!doc) {
+      doc = new jsPDF({ unit: "pt", format: [PAGE_WIDTH_PT, pageHeight], orientation });
+      await loadUnicodeFont(doc);
+    } else {
+      doc.addPage([PAGE_WIDTH_PT, pageHeight], orientation);
+    }
+
+    doc.addImage(image.dataUrl, "JPEG", 0, 0, PAGE_WIDTH_PT, pageHeight);
+
+    if (page.blocks.length > 0) {
+      addInvisibleWords(doc, page, scale);
+    } else {
+      addInvisibleText(doc, page, PAGE_WIDTH_PT, pageHeight);
+    }
+  }
+
+  doc.save(fileName);
+};
+
+export interface PdfSection {
+  title: string;
+  body: string;
+  /**
+   * Join wrapped lines back into flowing paragraphs. Right for OCR output,
+   * where line breaks follow the scan; wrong for AI lists and flashcards.
+   */
+  reflow?: boolean;
+}
+
+type SectionBlock = { kind: "heading" | "paragraph"; text: string };
+
+const MARGIN = 56;
+const HEADER_HEIGHT = 28;
+const FOOTER_HEIGHT = 28;
+const BODY_FONT_SIZE = 11;
+const LINE_HEIGHT_FACTOR = 1.4;
+
+const LIST_ITEM = /^\s*([-*•]|\d+[.)]|[A-D]\)|Q\d+[:.])\s+/;
+
+const isHeading = (paragraph: string) => {
+  const line = paragraph.trim();
+  if (line.includes("\n")) return false;
+  return (
+    /^#{1,6}\s/.test(line) ||
+    /^--- Page \d+ ---$/.test(line) ||
+    (line.length <= 60 && /[A-Za-z]/.test(line) && line === line.toUpperCase()) ||
+    (line.length <= 60 && line.endsWith(":") && !LIST_ITEM.test(line))
+  );
+};
+
+// Splits on blank lines, keeping each paragraph's own line breaks unless
+// the section asks for reflow. Markdown emphasis from the AI is dropped.
+const splitSection = ({ body, reflow }: PdfSection): SectionBlock[] =>
+  body
+    .replace(/\r\n/g, "\n")
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.replace(/\*\*(.+?)\*\*/g, "$1").trim())
+    .filter(Boolean)
+    .map((paragraph) => {
+      if (isHeading(paragraph)) {
+        return { kind: "heading", text: paragraph.replace(/^#{1,6}\s*|^--- | ---$/g, "") };
+      }
+      const text = reflow
+        ? paragraph
+            .split("\n")
+            .reduce((joined, line) =>
+              LIST_ITEM.test(line)
+                ? `${joined}\n${line.trim()}`
+                : joined.endsWith("-")
+                  ? `${joined.slice(0, -1)}${line.trim()}`
+                  : `${joined} ${line.trim()}`
+            )
+        : paragraph;
+      return { kind: "paragraph", text };
+    });
+
+/**
+ * Writes text sections into a paginated A4 PDF with a running header,
+ * page-numbered footer and an embedded Unicode font.
+ */
+export const exportTextPdf = async (title: string, sections: PdfSection[], fileName: string) => {
+  const doc = new jsPDF({ unit: "pt", format: "a4" });
+  await loadUnicodeFont(doc);
+
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const maxWidth = pageWidth - 2 * MARGIN;
+  const top = MARGIN + HEADER_HEIGHT;
+  const bottom = pageHeight - MARGIN - FOOTER_HEIGHT;
+  let y = top;
+
+  const write = (text: string, fontSize: number, style: "normal" | "bold", spaceAfter: number) => {
+    doc.setFont(UNICODE_FONT, style);
+    doc.setFontSize(fontSize);
+    const lineHeight = fontSize * LINE_HEIGHT_FACTOR;
+    const lines: string[] = doc.splitTextToSize(text, maxWidth);
+
+    // Keep headings with at least two lines of what follows them
+    const keepWith = style === "bold" ? lineHeight * 3 : lineHeight;
+    if (y + keepWith > bottom && y > top) {
+      doc.addPage();
+      y = top;
+    }
+
+    for (const line of lines) {
+      if (y + lineHeight > bottom) {
+        doc.addPage();
+        y = top;
+      }
+      doc.text(line, MARGIN, y, { baseline: "top" });
+      y += lineHeight;
+    }
+    y += spaceAfter;
+  };
+
+  write(title, 20, "bold", 12);
+
+  sections.forEach((section, index) => {
+    if (index > 0) y += BODY_FONT_SIZE;
+    write(section.title, 16, "bold", 8);
+
+    for (const block of splitSection(section)) {
+      if (block.kind === "heading") {
+        write(block.text, 13, "bold", 4);
+      } else {
+        write(block.text, BODY_FONT_SIZE, "normal", BODY_FONT_SIZE * 0.8);
+      }
+    }
+  });
+
+  const totalPages = doc.getNumberOfPages();
+  for (let i = 1; i <= totalPages; i++) {
+    doc.setPage(i);
+    doc.setFont(UNICODE_FONT, "normal");
+    doc.setFontSize(9);
+    doc.setTextColor(120);
+    doc.text(title, MARGIN, MARGIN, { baseline: "top" });
+    doc.text(new Date().toLocaleDateString(), pageWidth - MARGIN, MARGIN, { baseline: "top", align: "right" });
+    doc.setDrawColor(200);
+    doc.line(MARGIN, MARGIN + 16, pageWidth - MARGIN, MARGIN + 16);
+    doc.text(`Page ${i} of ${totalPages}`, pageWidth / 2, pageHeight - MARGIN, { align: "center" });
+  }
+  doc.setTextColor(0);
+
+  doc.save(fileName);
+};
@@ -0,0 +1,87 @@
+import * as pdfjs from "pdfjs-dist";
+import pdfWorkerUrl from "pdfjs-dist/build/pdf.worker.min.mjs?url";
+
+pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+export const PDF_DPI_OPTIONS = [150, 200, 300];
+export const DEFAULT_PDF_DPI = 200;
+
+// PDF user space is 72 units per inch
+const PDF_POINTS_PER_INCH = 72;
+
+// Pages with less embedded text than this are treated as scans
+const MIN_TEXT_LAYER_CHARS = 20;
+
+export interface ImportedPdfPage {
+  name: string;
+  image: string;
+  /** Embedded text, present when the page already has a usable text layer */
+  text?: string;
+}
+
+export const isPdfFile = (file: File) =>
+  file.type === "application/pdf" || file.name.toLowerCase().endsWith(".pdf");
+
+const extractTextLayer = async (page: pdfjs.PDFPageProxy) => {
+  const content = await page.getTextContent();
+  let text = "";
+
+  for (const item of content.items) {
+    if (!("str" in item)) continue;
+    text += item.str;
+    text += item.hasEOL ? "\n" : "";
+  }
+
+  return text.replace(/[ \t]+\n/g, "\n").trim();
+};
+
+const renderPage = async (page: pdfjs.PDFPageProxy, dpi: number) => {
+  const viewport = page.getViewport({ scale: dpi / PDF_POINTS_PER_INCH });
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.floor(viewport.width);
+  canvas.height = Math.floor(viewport.height);
+
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not supported");
+
+  // Scans are often transparent; Tesseract reads black-on-white best
+  ctx.fillStyle = "#ffffff";
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  await page.render({ canvasContext: ctx, viewport }).promise;
+
+  return canvas.toDataURL("image/png");
+};
+
+/**
+ * Rasterises every page of a PDF in the browser. Pages that carry their
+ * own text layer keep that text so they can skip OCR entirely.
+ */
+export const importPdf = async (
+  file: File,
+  dpi: number,
+  onProgress?: (page: number, total: number) => void
+): Promise<ImportedPdfPage[]> => {
+  const pdf = await pdfjs.getDocument({ data: await file.arrayBuffer() }).promise;
+  const baseName = file.name.replace(/\.pdf$/i, "");
+  const pages: ImportedPdfPage[] = [];
+
+  try {
+    for (let i = 1; i <= pdf.numPages; i++) {
+      onProgress?.(i, pdf.numPages);
+      const page = await pdf.getPage(i);
+      const text = await extractTextLayer(page);
+      const image = await renderPage(page, dpi);
+      page.cleanup();
+
+      pages.push({
+        name: `${baseName} (p. ${i})`,
+        image,
+        text: text.replace(/\s/g, "").length >= MIN_TEXT_LAYER_CHARS ? text : undefined,
+      });
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  return pages;
+};
@@ -0,0 +1,229 @@
+import { otsuThreshold } from "@/lib/filters";
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/** Corners in order: top-left, top-right, bottom-right, bottom-left */
+export type Quad = [Point, Point, Point, Point];
+
+// Warped output is capped so a 48MP photo doesn't allocate gigabytes
+const MAX_OUTPUT_SIDE = 3000;
+// Edge detection works on a thumbnail; page outlines don't need detail
+const DETECTION_SIZE = 360;
+// A detected page smaller than this share of the photo is probably noise
+const MIN_PAGE_AREA = 0.2;
+// A bright region covering more than this is the page filling the photo
+const FULL_FRAME_AREA = 0.97;
+
+export const fullQuad = (width: number, height: number): Quad => [
+  { x: 0, y: 0 },
+  { x: width, y: 0 },
+  { x: width, y: height },
+  { x: 0, y: height },
+];
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+export const quadArea = (quad: Quad) =>
+  Math.abs(
+    quad.reduce((sum, p, i) => {
+      const next = quad[(i + 1) % 4];
+      return sum + p.x * next.y - next.x * p.y;
+    }, 0)
+  ) / 2;
+
+export const isRectangle = ([tl, tr, br, bl]: Quad) =>
+  tl.y === tr.y && bl.y === br.y && tl.x === bl.x && tr.x === br.x;
+
+/** Output size that keeps the page's proportions once flattened */
+export const quadOutputSize = ([tl, tr, br, bl]: Quad) => {
+  let width = Math.max(distance(tl, tr), distance(bl, br));
+  let height = Math.max(distance(tl, bl), distance(tr, br));
+  const shrink = Math.min(1, MAX_OUTPUT_SIDE / Math.max(width, height));
+  width = Math.max(1, Math.round(width * shrink));
+  height = Math.max(1, Math.round(height * shrink));
+  return { width, height };
+};
+
+// Solves A·x = b in place with partial pivoting
+const solveLinearSystem = (a: number[][], b: number[]) => {
+  const n = b.length;
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    [b[col], b[pivot]] = [b[pivot], b[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k < n; k++) a[row][k] -= factor * a[col][k];
+      b[row] -= factor * b[col];
+    }
+  }
+
+  const x = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = b[row];
+    for (let k = row + 1; k < n; k++) sum -= a[row][k] * x[k];
+    x[row] = sum / a[row][row];
+  }
+  return x;
+};
+
+/** Homography mapping each `from` corner onto the matching `to` corner */
+export const computeHomography = (from: Quad, to: Quad) => {
+  const a: number[][] = [];
+  const b: number[] = [];
+
+  from.forEach(({ x, y }, i) => {
+    const { x: u, y: v } = to[i];
+    a.push([x, y, 1, 0, 0, 0, -u * x, -u * y]);
+    b.push(u);
+    a.push([0, 0, 0, x, y, 1, -v * x, -v * y]);
+    b.push(v);
+  });
+
+  return [...solveLinearSystem(a, b), 1];
+};
+
+/**
+ * Flattens the quad into an upright rectangle. Works backwards from each
+ * output pixel so there are no holes, with bilinear sampling.
+ */
+export const warpPerspective = (source: CanvasImageSource & { width: number; height: number }, quad: Quad) => {
+  const { width, height } = quadOutputSize(quad);
+  const output = document.createElement("canvas");
+  output.width = width;
+  output.height = height;
+  const outCtx = output.getContext("2d");
+  if (!outCtx) throw new Error("Canvas is not supported");
+
+  // Axis-aligned crops don't need per-pixel work
+  if (isRectangle(quad)) {
+    const [tl, tr, , bl] = quad;
+    outCtx.drawImage(source, tl.x, tl.y, tr.x - tl.x, bl.y - tl.y, 0, 0, width, height);
+    return output;
+  }
+
+  const input = document.createElement("canvas");
+  input.width = source.width;
+  input.height = source.height;
+  const inCtx = input.getContext("2d");
+  if (!inCtx) throw new Error("Canvas is not supported");
+  inCtx.drawImage(source, 0, 0);
+
+  const src = inCtx.getImageData(0, 0, input.width, input.height);
+  const dst = outCtx.createImageData(width, height);
+  const h = computeHomography(fullQuad(width, height), quad);
+  const sw = src.width;
+  const sh = src.height;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const w = h[6] * x + h[7] * y + h[8];
+      const sx = (h[0] * x + h[1] * y + h[2]) / w;
+      const sy = (h[3] * x + h[4] * y + h[5]) / w;
+
+      const x0 = Math.floor(sx);
+      const y0 = Math.floor(sy);
+      if (x0 < 0 || y0 < 0 || x0 >= sw - 1 || y0 >= sh - 1) continue;
+
+      const fx = sx - x0;
+      const fy = sy - y0;
+      const i00 = (y0 * sw + x0) * 4;
+      const i10 = i00 + 4;
+      const i01 = i00 + sw * 4;
+      const i11 = i01 + 4;
+      const o = (y * width + x) * 4;
+
+      for (let c = 0; c < 4; c++) {
+        const top = src.data[i00 + c] * (1 - fx) + src.data[i10 + c] * fx;
+        const bottom = src.data[i01 + c] * (1 - fx) + src.data[i11 + c] * fx;
+        dst.data[o + c] = top * (1 - fy) + bottom * fy;
+      }
+    }
+  }
+
+  outCtx.putImageData(dst, 0, 0);
+  return output;
+};
+
+/**
+ * Finds the page in a photo of a document lying on a desk. Pages are
+ * almost always the brightest large region, so this thresholds a blurred
+ * thumbnail, keeps the bright blob under the centre of the frame and takes
+ * its extreme points along both diagonals as the corners. A page filling
+ * the photo gets the whole frame as its outline.
+ * Returns null when nothing page-like stands out.
+ */
+export const detectDocumentQuad = (source: CanvasImageSource & { width: number; height: number }): Quad | null => {
+  const ratio = Math.min(1, DETECTION_SIZE / Math.max(source.width, source.height));
+  const w = Math.max(1, Math.round(source.width * ratio));
+  const h = Math.max(1, Math.round(source.height * ratio));
+
+  const canvas = document.createElement("canvas");
+  canvas.width = w;
+  canvas.height = h;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) return null;
+  // The canvas blur smooths away text so it doesn't split the page blob
+  ctx.filter = "blur(3px)";
+  ctx.drawImage(source, 0, 0, w, h);
+  const { data } = ctx.getImageData(0, 0, w, h);
+
+  const gray = new Float32Array(w * h);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  const threshold = otsuThreshold(gray);
+
+  // Flood fill the bright region that contains the centre of the frame
+  const visited = new Uint8Array(w * h);
+  const start = Math.floor(h / 2) * w + Math.floor(w / 2);
+  if (gray[start] <= threshold) return null;
+
+  const stack = [start];
+  visited[start] = 1;
+  let count = 0;
+  let tl = start, tr = start, br = start, bl = start;
+  const score = (i: number, sx: number, sy: number) => sx * (i % w) + sy * Math.floor(i / w);
+
+  while (stack.length > 0) {
+    const i = stack.pop()!;
+    count++;
+    if (score(i, 1, 1) < score(tl, 1, 1)) tl = i;
+    if (score(i, 1, 1) > score(br, 1, 1)) br = i;
+    if (score(i, 1, -1) > score(tr, 1, -1)) tr = i;
+    if (score(i, 1, -1) < score(bl, 1, -1)) bl = i;
+
+    const x = i % w;
+    const neighbours = [
+      x > 0 ? i - 1 : -1,
+      x < w - 1 ? i + 1 : -1,
+      i - w,
+      i + w,
+    ];
+    for (const n of neighbours) {
+      if (n < 0 || n >= gray.length || visited[n] || gray[n] <= threshold) continue;
+      visited[n] = 1;
+      stack.push(n);
+    }
+  }
+
+  const pageArea = count / (w * h);
+  if (pageArea < MIN_PAGE_AREA) return null;
+  // Touching the whole frame means the photo is already just the page
+  if (pageArea > FULL_FRAME_AREA) return fullQuad(source.width, source.height);
+
+  const toPoint = (i: number): Point => ({
+    x: Math.min(source.width, (i % w) / ratio),
+    y: Math.min(source.height, Math.floor(i / w) / ratio),
+  });
+  const quad: Quad = [toPoint(tl), toPoint(tr), toPoint(br), toPoint(bl)];
+
+  return quadArea(quad) / (source.width * source.height) >= MIN_PAGE_AREA ? quad : null;
+};
@@ -0,0 +1,248 @@
+import type { LibraryDocument } from "@/lib/library-store";
+import type { StudyTool } from "@/lib/study-tools";
+
+/** Where a match was found, precise enough to open the document there */
+export type SearchLocation =
+  | { kind: "page"; pageId: string; pageIndex: number; lineId?: string }
+  | { kind: "material"; tool: StudyTool }
+  | { kind: "qa"; timestamp: number };
+
+interface Token {
+  term: string;
+  start: number;
+  end: number;
+}
+
+interface Segment {
+  docId: string;
+  location: SearchLocation;
+  text: string;
+  tokens: Token[];
+}
+
+export interface SearchIndex {
+  segments: Segment[];
+  /** Normalised term -> indexes into `segments` */
+  postings: Map<string, number[]>;
+}
+
+export interface SearchResult {
+  docId: string;
+  location: SearchLocation;
+  snippet: string;
+  /** [start, end) character ranges in `snippet` to highlight */
+  highlights: [number, number][];
+  /** Matching segments in this location */
+  matches: number;
+  score: number;
+}
+
+const SNIPPET_LENGTH = 160;
+const MAX_RESULTS = 50;
+
+// Characters Tesseract commonly swaps, folded the same way in the index and the query
+const OCR_CONFUSIONS: [RegExp, string][] = [
+  [/rn/g, "m"],
+  [/vv/g, "w"],
+  [/0/g, "o"],
+  [/[1|]/g, "l"],
+  [/5/g, "s"],
+];
+
+export const normalizeTerm = (word: string) => {
+  let term = word
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase();
+  // Leave plain numbers alone; only fold digits inside words
+  if (/[a-z]/.test(term)) {
+    for (const [pattern, replacement] of OCR_CONFUSIONS) term = term.replace(pattern, replacement);
+  }
+  return term;
+};
+
+const tokenize = (text: string): Token[] =>
+  [...text.matchAll(/[\p{L}\p{N}|]+(?:['’][\p{L}]+)?/gu)]
+    .map((match) => ({
+      term: normalizeTerm(match[0]),
+      start: match.index ?? 0,
+      end: (match.index ?? 0) + match[0].length,
+    }))
+    .filter((token) => token.term.length > 0);
+
+/** Levenshtein distance, giving up once it exceeds `max` */
+const editDistance = (a: string, b: string, max: number) => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Short words must match exactly or "cat" would find "car", "bat" and "at"
+const allowedTypos = (term: string) => (term.length <= 3 ? 0 : term.length <= 6 ? 1 : 2);
+
+/**
+ * Indexes each OCR line (so a match can be highlighted on the scan), each
+ * paragraph of generated study material and each saved question and answer.
+ */
+export const buildSearchIndex = (documents: LibraryDocument[]): SearchIndex => {
+  const segments: Segment[] = [];
+  const add = (docId: string, location: SearchLocation, text: string) => {
+    const tokens = tokenize(text);
+    if (tokens.length > 0) segments.push({ docId, location, text, tokens });
+  };
+
+  documents.forEach((document) => {
+    document.pages.forEach((page, pageIndex) => {
+      const lines = page.blocks.flatMap((block) => block.lines);
+      if (lines.length > 0) {
+        lines.forEach((line) => add(document.id, { kind: "page", pageId: page.id, pageIndex, lineId: line.id }, line.text));
+      } else {
+        // PDF text layers come without word boxes
+        page.text
+          .split("\n")
+          .forEach((line) => add(document.id, { kind: "page", pageId: page.id, pageIndex }, line));
+      }
+    });
+
+    (Object.entries(document.studyMaterials) as [StudyTool, string][]).forEach(([tool, text]) => {
+      text.split(/\n\s*\n/).forEach((paragraph) => add(document.id, { kind: "material", tool }, paragraph));
+    });
+
+    document.qaHistory.forEach(({ question, answer, timestamp }) => {
+      const location: SearchLocation = { kind: "qa", timestamp };
+      add(document.id, location, question);
+      answer.split(/\n\s*\n/).forEach((paragraph) => add(document.id, location, paragraph));
+    });
+  });
+
+  const postings = new Map<string, number[]>();
+  segments.forEach((segment, i) => {
+    new Set(segment.tokens.map((token) => token.term)).forEach((term) => {
+      const list = postings.get(term);
+      if (list) list.push(i);
+      else postings.set(term, [i]);
+    });
+  });
+
+  return { segments, postings };
+};
+
+// Index terms close enough to a query term, with how good a match each is
+const expandTerm = (index: SearchIndex, term: string, isLast: boolean) => {
+  const matches = new Map<string, number>();
+  const typos = allowedTypos(term);
+
+  for (const candidate of index.postings.keys()) {
+    if (candidate === term) {
+      matches.set(candidate, 1);
+    } else if (isLast && term.length >= 2 && candidate.startsWith(term)) {
+      // The word still being typed
+      matches.set(candidate, 0.8);
+    } else if (typos > 0) {
+      const distance = editDistance(term, candidate, typos);
+      if (distance <= typos) matches.set(candidate, 0.9 - 0.2 * distance);
+    }
+  }
+  return matches;
+};
+
+export const locationKey = (docId: string, location: SearchLocation) => {
+  switch (location.kind) {
+    case "page":
+      return `${docId}:page:${location.pageId}`;
+    case "material":
+      return `${docId}:material:${location.tool}`;
+    case "qa":
+      return `${docId}:qa:${location.timestamp}`;
+  }
+};
+
+const makeSnippet = (segment: Segment, matched: Set<string>) => {
+  const hits = segment.tokens.filter((token) => matched.has(token.term));
+  let start = 0;
+  let end = segment.text.length;
+
+  if (end > SNIPPET_LENGTH) {
+    // Centre the window on the first hit, then widen to whole words
+    start = Math.max(0, (hits[0]?.start ?? 0) - SNIPPET_LENGTH / 3);
+    end = Math.min(segment.text.length, start + SNIPPET_LENGTH);
+    while (start > 0 && /\S/.test(segment.text[start - 1])) start--;
+    while (end < segment.text.length && /\S/.test(segment.text[end])) end++;
+  }
+
+  const prefix = start > 0 ? "…" : "";
+  const suffix = end < segment.text.length ? "…" : "";
+  const snippet = `${prefix}${segment.text.slice(start, end)}${suffix}`;
+  const offset = prefix.length - start;
+
+  const highlights = hits
+    .filter((token) => token.start >= start && token.end <= end)
+    .map((token): [number, number] => [token.start + offset, token.end + offset]);
+  return { snippet, highlights };
+};
+
+/**
+ * Ranks locations by how many query words they contain, then by match
+ * quality. Misspellings and common OCR misreadings still match.
+ */
+export const searchLibrary = (index: SearchIndex, query: string, docIds?: Set<string>): SearchResult[] => {
+  const terms = [...new Set(tokenize(query).map((token) => token.term))];
+  if (terms.length === 0) return [];
+
+  // Per segment: best weight for each query term
+  const hits = new Map<number, Map<string, number>>();
+  const matchedTerms = new Set<string>();
+
+  terms.forEach((term, i) => {
+    expandTerm(index, term, i === terms.length - 1).forEach((weight, candidate) => {
+      matchedTerms.add(candidate);
+      index.postings.get(candidate)?.forEach((segmentIndex) => {
+        if (docIds && !docIds.has(index.segments[segmentIndex].docId)) return;
+        const weights = hits.get(segmentIndex) ?? new Map<string, number>();
+        weights.set(term, Math.max(weights.get(term) ?? 0, weight));
+        hits.set(segmentIndex, weights);
+      });
+    });
+  });
+
+  const results = new Map<string, SearchResult & { coverage: number }>();
+  hits.forEach((weights, segmentIndex) => {
+    const segment = index.segments[segmentIndex];
+    const coverage = weights.size;
+    const score = [...weights.values()].reduce((sum, weight) => sum + weight, 0);
+    const key = locationKey(segment.docId, segment.location);
+    const existing = results.get(key);
+
+    if (existing && (existing.coverage > coverage || (existing.coverage === coverage && existing.score >= score))) {
+      existing.matches++;
+      return;
+    }
+    results.set(key, {
+      docId: segment.docId,
+      location: segment.location,
+      ...makeSnippet(segment, matchedTerms),
+      matches: (existing?.matches ?? 0) + 1,
+      score,
+      coverage,
+    });
+  });
+
+  return [...results.values()]
+    .sort((a, b) => b.coverage - a.coverage || b.score - a.score || b.matches - a.matches)
+    .slice(0, MAX_RESULTS)
+    .map(({ coverage, ...result }) => result);
+};
@@ -0,0 +1,114 @@
+import type { Flashcard } from "@/lib/study-tools";
+
+export type ReviewGrade = "again" | "hard" | "good" | "easy";
+
+export const REVIEW_GRADES: ReviewGrade[] = ["again", "hard", "good", "easy"];
+
+/** SM-2 state for one card */
+export interface CardSchedule {
+  /** Multiplier applied to the interval after each successful review */
+  ease: number;
+  /** Days until the next review; 0 while the card is being (re)learned */
+  interval: number;
+  /** Successful reviews in a row */
+  repetitions: number;
+  lapses: number;
+  /** Next review time in ms since the epoch */
+  due: number;
+  lastReviewed: number | null;
+}
+
+export interface ScheduledCard extends Flashcard {
+  schedule: CardSchedule;
+}
+
+export interface ReviewLog {
+  id: string;
+  deckId: string;
+  cardId: string;
+  grade: ReviewGrade;
+  reviewedAt: number;
+  /** Interval in days the grade produced */
+  interval: number;
+  ease: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_EASE = 1.3;
+const DEFAULT_EASE = 2.5;
+// Cards answered "again" come back within the same session
+const RELEARN_DELAY_MS = 10 * 60 * 1000;
+
+// SM-2 rates answers 0-5; anything below 3 counts as a lapse
+const QUALITY: Record<ReviewGrade, number> = { again: 1, hard: 3, good: 4, easy: 5 };
+
+export const newSchedule = (now = Date.now()): CardSchedule => ({
+  ease: DEFAULT_EASE,
+  interval: 0,
+  repetitions: 0,
+  lapses: 0,
+  due: now,
+  lastReviewed: null,
+});
+
+/**
+ * SM-2 with four buttons. "Hard" still passes but grows the interval slowly,
+ * and "easy" adds a bonus on top of the ease factor.
+ */
+export const reviewSchedule = (schedule: CardSchedule, grade: ReviewGrade, now = Date.now()): CardSchedule => {
+  const q = QUALITY[grade];
+  const ease = Math.max(MIN_EASE, schedule.ease + 0.1 - (5 - q) * (0.08 + (5 - q) * 0.02));
+
+  if (grade === "again") {
+    return {
+      ease,
+      interval: 0,
+      repetitions: 0,
+      lapses: schedule.lapses + 1,
+      due: now + RELEARN_DELAY_MS,
+      lastReviewed: now,
+    };
+  }
+
+  let interval: number;
+  if (schedule.repetitions === 0) {
+    interval = grade === "easy" ? 4 : 1;
+  } else if (schedule.repetitions === 1 && grade !== "hard") {
+    interval = grade === "easy" ? 8 : 6;
+  } else if (grade === "hard") {
+    interval = Math.max(schedule.interval + 1, Math.round(schedule.interval * 1.2));
+  } else {
+    interval = Math.round(Math.max(1, schedule.interval) * ease * (grade === "easy" ? 1.3 : 1));
+  }
+
+  return {
+    ease,
+    interval,
+    repetitions: schedule.repetitions + 1,
+    lapses: schedule.lapses,
+    due: now + interval * DAY_MS,
+    lastReviewed: now,
+  };
+};
+
+export const endOfToday = (now = Date.now()) => {
+  const end = new Date(now);
+  end.setHours(23, 59, 59, 999);
+  return end.getTime();
+};
+
+/** Cards due by the end of today, most overdue first */
+export const dueCards = <T extends ScheduledCard>(cards: T[], now = Date.now()) => {
+  const cutoff = endOfToday(now);
+  return cards.filter((card) => card.schedule.due <= cutoff).sort((a, b) => a.schedule.due - b.schedule.due);
+};
+
+/** Short label for a review button, e.g. "10m", "1d", "3mo" */
+export const formatInterval = (schedule: CardSchedule, now = Date.now()) => {
+  const ms = schedule.due - now;
+  if (ms < DAY_MS) return `${Math.max(1, Math.round(ms / 60000))}m`;
+  const days = Math.round(ms / DAY_MS);
+  if (days < 30) return `${days}d`;
+  if (days < 365) return `${Math.round(days / 30)}mo`;
+  return `${(days / 365).toFixed(1)}y`;
+};
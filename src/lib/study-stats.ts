@@ -0,0 +1,182 @@
+import type { QuizAttempt, StudyDeck } from "@/lib/deck-store";
+import type { ReviewLog } from "@/lib/srs";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const dayKey = (time: number) => {
+  const date = new Date(time);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+};
+
+const shortDate = (time: number) => new Date(time).toLocaleDateString(undefined, { day: "numeric", month: "short" });
+
+const percent = (part: number, whole: number) => (whole ? Math.round((part / whole) * 100) : 0);
+
+/** Anything but "again" means the card was remembered */
+const remembered = (review: ReviewLog) => review.grade !== "again";
+
+export interface QuizScorePoint {
+  label: string;
+  score: number;
+  title: string;
+}
+
+/** Score of each full quiz attempt, oldest first. Retries of missed questions would flatter the trend. */
+export const quizScoreSeries = (attempts: QuizAttempt[]): QuizScorePoint[] =>
+  attempts
+    .filter((attempt) => !attempt.isRetry && attempt.results.length > 0)
+    .map((attempt) => ({
+      label: shortDate(attempt.takenAt),
+      score: percent(attempt.results.filter((result) => result.correct).length, attempt.results.length),
+      title: attempt.title,
+    }));
+
+export interface TopicAccuracy {
+  topic: string;
+  accuracy: number;
+  answers: number;
+}
+
+/**
+ * Accuracy per flashcard tag (from reviews) and per quiz document, weakest
+ * first. Topics with only a couple of answers are left out as noise.
+ */
+export const accuracyByTopic = (
+  reviews: ReviewLog[],
+  decks: StudyDeck[],
+  attempts: QuizAttempt[],
+  minAnswers = 3
+): TopicAccuracy[] => {
+  const totals = new Map<string, { correct: number; answers: number }>();
+  const add = (topic: string, correct: boolean) => {
+    const entry = totals.get(topic) ?? { correct: 0, answers: 0 };
+    entry.answers++;
+    if (correct) entry.correct++;
+    totals.set(topic, entry);
+  };
+
+  const tagsByCard = new Map(decks.flatMap((deck) => deck.cards.map((card) => [card.id, card.tags] as const)));
+  reviews.forEach((review) => {
+    tagsByCard.get(review.cardId)?.forEach((tag) => add(tag.toLowerCase(), remembered(review)));
+  });
+  attempts.forEach((attempt) => {
+    attempt.results.forEach((result) => add(`Quiz: ${attempt.title}`, result.correct));
+  });
+
+  return [...totals.entries()]
+    .filter(([, { answers }]) => answers >= minAnswers)
+    .map(([topic, { correct, answers }]) => ({ topic, accuracy: percent(correct, answers), answers }))
+    .sort((a, b) => a.accuracy - b.accuracy);
+};
+
+export interface RetentionPoint {
+  label: string;
+  retention: number;
+  reviews: number;
+}
+
+// Days since the card was last seen
+const RETENTION_BUCKETS = [
+  { label: "Same day", max: 1 },
+  { label: "1 day", max: 2 },
+  { label: "2–3 days", max: 4 },
+  { label: "4–7 days", max: 8 },
+  { label: "1–2 weeks", max: 15 },
+  { label: "2–4 weeks", max: 31 },
+  { label: "1 month+", max: Infinity },
+];
+
+/** How often cards are remembered against how long it has been since they were last reviewed */
+export const retentionCurve = (reviews: ReviewLog[]): RetentionPoint[] => {
+  const buckets = RETENTION_BUCKETS.map(() => ({ remembered: 0, reviews: 0 }));
+  const lastSeen = new Map<string, number>();
+
+  [...reviews]
+    .sort((a, b) => a.reviewedAt - b.reviewedAt)
+    .forEach((review) => {
+      const previous = lastSeen.get(review.cardId);
+      lastSeen.set(review.cardId, review.reviewedAt);
+      // A card's first review says nothing about forgetting
+      if (previous === undefined) return;
+
+      const days = (review.reviewedAt - previous) / DAY_MS;
+      const bucket = buckets[RETENTION_BUCKETS.findIndex(({ max }) => days < max)];
+      bucket.reviews++;
+      if (remembered(review)) bucket.remembered++;
+    });
+
+  return RETENTION_BUCKETS.map(({ label }, i) => ({
+    label,
+    retention: percent(buckets[i].remembered, buckets[i].reviews),
+    reviews: buckets[i].reviews,
+  })).filter((point) => point.reviews > 0);
+};
+
+export interface ActivityDay {
+  label: string;
+  reviews: number;
+  quizQuestions: number;
+}
+
+export interface StudyStreak {
+  current: number;
+  longest: number;
+  /** One entry per day for the last `days` days, oldest first */
+  activity: ActivityDay[];
+}
+
+/** A day counts towards the streak when any card was reviewed or any quiz taken */
+export const studyStreak = (
+  reviews: ReviewLog[],
+  attempts: QuizAttempt[],
+  days = 30,
+  now = Date.now()
+): StudyStreak => {
+  const reviewsByDay = new Map<string, number>();
+  const questionsByDay = new Map<string, number>();
+  reviews.forEach((review) => {
+    const key = dayKey(review.reviewedAt);
+    reviewsByDay.set(key, (reviewsByDay.get(key) ?? 0) + 1);
+  });
+  attempts.forEach((attempt) => {
+    const key = dayKey(attempt.takenAt);
+    questionsByDay.set(key, (questionsByDay.get(key) ?? 0) + attempt.results.length);
+  });
+  const studied = new Set([...reviewsByDay.keys(), ...questionsByDay.keys()]);
+
+  // Walk back from today; a streak survives until today is over
+  let current = 0;
+  let day = new Date(now);
+  if (!studied.has(dayKey(day.getTime()))) day.setDate(day.getDate() - 1);
+  while (studied.has(dayKey(day.getTime()))) {
+    current++;
+    day.setDate(day.getDate() - 1);
+  }
+
+  let longest = 0;
+  let run = 0;
+  let previous: Date | null = null;
+  for (const key of [...studied].sort()) {
+    const [year, month, date] = key.split("-").map(Number);
+    const time = new Date(year, month - 1, date);
+    const next = previous && new Date(previous.getFullYear(), previous.getMonth(), previous.getDate() + 1);
+    run = next && next.getTime() === time.getTime() ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = time;
+  }
+
+  const activity: ActivityDay[] = [];
+  day = new Date(now);
+  day.setDate(day.getDate() - (days - 1));
+  for (let i = 0; i < days; i++) {
+    const key = dayKey(day.getTime());
+    activity.push({
+      label: shortDate(day.getTime()),
+      reviews: reviewsByDay.get(key) ?? 0,
+      quizQuestions: questionsByDay.get(key) ?? 0,
+    });
+    day.setDate(day.getDate() + 1);
+  }
+
+  return { current, longest, activity };
+};
@@ -0,0 +1,189 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+
+export type StudyAction = "qa" | "lesson" | "flashcards" | "summarize" | "quiz";
+
+/** Actions that produce study material rather than answer a question */
+export type StudyTool = Exclude<StudyAction, "qa">;
+
+export const STUDY_MATERIAL_TITLES: Record<StudyTool, string> = {
+  lesson: "Lesson",
+  summarize: "Summary",
+  flashcards: "Flashcards",
+  quiz: "Quiz",
+};
+
+export interface StudyToolRequest {
+  text: string;
+  action: StudyAction;
+  question?: string;
+  language?: string;
+}
+
+export interface QAPair {
+  question: string;
+  answer: string;
+  timestamp: number;
+}
+
+/** Which model answered, as reported by the edge function */
+export interface AIProviderInfo {
+  provider: string;
+  model: string;
+}
+
+interface StreamOptions {
+  /** Called with the full text so far each time a chunk arrives */
+  onText: (text: string) => void;
+  onMeta?: (info: AIProviderInfo) => void;
+  signal?: AbortSignal;
+}
+
+const FUNCTION_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/ai-study-tools`;
+const PUBLISHABLE_KEY = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
+
+// Same credentials `supabase.functions.invoke` would send: the user's token when signed in
+const authHeaders = async () => {
+  const { data } = await supabase.auth.getSession();
+  return {
+    apikey: PUBLISHABLE_KEY,
+    Authorization: `Bearer ${data.session?.access_token ?? PUBLISHABLE_KEY}`,
+  };
+};
+
+export const isAbortError = (error: unknown) =>
+  error instanceof DOMException && error.name === "AbortError";
+
+/**
+ * Calls the ai-study-tools edge function in streaming mode and resolves
+ * with the complete text. `supabase.functions.invoke` buffers the whole
+ * body, so this talks to the function URL directly. Aborting the signal
+ * cancels the request and rejects with an AbortError; whatever arrived
+ * before that has already been passed to `onText`. A stream that ends
+ * without the function's `done` event was cut off and rejects too.
+ */
+export const streamStudyTool = async (
+  request: StudyToolRequest,
+  { onText, onMeta, signal }: StreamOptions
+) => {
+  const response = await fetch(FUNCTION_URL, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(await authHeaders()),
+    },
+    body: JSON.stringify({ ...request, stream: true }),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error ?? `AI request failed (${response.status})`);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let text = "";
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    // Events are separated by a blank line; keep any partial one for later
+    const events = buffer.split("\n\n");
+    buffer = events.pop() ?? "";
+
+    for (const event of events) {
+      const data = event
+        .split("\n")
+        .filter((line) => line.startsWith("data:"))
+        .map((line) => line.slice(5).trim())
+        .join("");
+      if (!data) continue;
+
+      const message = JSON.parse(data) as {
+        meta?: AIProviderInfo;
+        delta?: string;
+        done?: boolean;
+        error?: string;
+      };
+      if (message.error) throw new Error(message.error);
+      if (message.meta) onMeta?.(message.meta);
+      if (message.delta) {
+        text += message.delta;
+        onText(text);
+      }
+      if (message.done) return text;
+    }
+  }
+
+  throw new Error("The AI response was cut off before it finished");
+};
+
+export interface Flashcard {
+  /** Assigned on arrival so cards can be edited, shuffled and scheduled */
+  id: string;
+  front: string;
+  back: string;
+  tags: string[];
+}
+
+export type Difficulty = "easy" | "medium" | "hard";
+
+export interface QuizQuestion {
+  stem: string;
+  options: string[];
+  /** Index into `options` */
+  correctIndex: number;
+  explanation: string;
+  difficulty: Difficulty;
+}
+
+export type StructuredStudyResult = { flashcards: Flashcard[] } | { quiz: QuizQuestion[] };
+
+/**
+ * Flashcards and quizzes come back as validated JSON in one piece rather
+ * than streamed, since they can only be checked once complete.
+ */
+export const requestStructuredStudyTool = async (
+  request: StudyToolRequest & { action: "flashcards" | "quiz" },
+  { onMeta, signal }: Omit<StreamOptions, "onText">
+) => {
+  const { data: body, error } = await supabase.functions.invoke("ai-study-tools", { body: request, signal });
+  // invoke reports an abort as a fetch error; callers look for an AbortError
+  if (signal?.aborted) throw new DOMException("The request was aborted", "AbortError");
+  if (error) {
+    const details = error instanceof FunctionsHttpError ? await error.context.json().catch(() => null) : null;
+    throw new Error(details?.error ?? error.message);
+  }
+  if (!body?.data) throw new Error("No response from AI");
+  if (body.meta) onMeta?.(body.meta);
+
+  const data = body.data as StructuredStudyResult;
+  if ("flashcards" in data) {
+    return { flashcards: data.flashcards.map((card) => ({ ...card, id: crypto.randomUUID() })) };
+  }
+  return data;
+};
+
+/** Plain-text version for copying and PDF export */
+export const flashcardsToText = (cards: Flashcard[]) =>
+  cards
+    .map((card) => `FRONT: ${card.front}\nBACK: ${card.back}${card.tags.length ? `\nTags: ${card.tags.join(", ")}` : ""}`)
+    .join("\n\n");
+
+export const quizToText = (questions: QuizQuestion[]) =>
+  questions
+    .map((question, i) =>
+      [
+        `Q${i + 1}: ${question.stem}`,
+        ...question.options.map((option, j) => `${String.fromCharCode(65 + j)}) ${option}`),
+        `Correct Answer: ${String.fromCharCode(65 + question.correctIndex)}`,
+        question.explanation && `Explanation: ${question.explanation}`,
+      ]
+        .filter(Boolean)
+        .join("\n")
+    )
+    .join("\n\n");
@@ -1,13 +1,87 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
 import { Hero } from "@/components/Hero";
 import { OCRUpload } from "@/components/OCRUpload";
+import { DocumentLibrary } from "@/components/DocumentLibrary";
+import { StudyDecks } from "@/components/StudyDecks";
+import { DiscardWorkDialog } from "@/components/DiscardWorkDialog";
+import type { LibraryDocument } from "@/lib/library-store";
+import type { SearchLocation } from "@/lib/search";
+
+interface OpenedDocument {
+  document: LibraryDocument;
+  location?: SearchLocation;
+  openedAt: number;
+}
+
+/** Something that would unmount the uploader, waiting on the user to discard the scan */
+interface PendingLeave {
+  consequence: string;
+  confirmLabel: string;
+  proceed: () => void;
+}
 
 const Index = () => {
+  const [opened, setOpened] = useState<OpenedDocument | null>(null);
+  const [hasUnsavedWork, setHasUnsavedWork] = useState(false);
+  const [pendingLeave, setPendingLeave] = useState<PendingLeave | null>(null);
+  const navigate = useNavigate();
+
+  const leaveScan = (leave: PendingLeave) => {
+    if (hasUnsavedWork) {
+      setPendingLeave(leave);
+    } else {
+      leave.proceed();
+    }
+  };
+
+  const showDocument = (document: LibraryDocument, location?: SearchLocation) => {
+    // A new key remounts the uploader so it starts from the saved state
+    setOpened({ document, location, openedAt: Date.now() });
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
+  const openDocument = (document: LibraryDocument, location?: SearchLocation) =>
+    leaveScan({
+      consequence: `Opening "${document.title}" will replace them.`,
+      confirmLabel: "Discard and open",
+      proceed: () => showDocument(document, location),
+    });
+
+  // The progress page is its own route, so going there unmounts the uploader too
+  const openProgress = () =>
+    leaveScan({
+      consequence: "Leaving for the progress page will clear them.",
+      confirmLabel: "Discard and continue",
+      proceed: () => navigate("/progress"),
+    });
+
+  const confirmLeave = () => {
+    pendingLeave?.proceed();
+    setPendingLeave(null);
+  };
+
   return (
     <div className="min-h-screen bg-background">
       <div className="container mx-auto px-4 py-16">
         <Hero />
-        <OCRUpload />
+        <OCRUpload
+          key={opened?.openedAt ?? 0}
+          initialDocument={opened?.document}
+          initialLocation={opened?.location}
+          onUnsavedWorkChange={setHasUnsavedWork}
+        />
+        <StudyDecks onOpenProgress={openProgress} />
+        <DocumentLibrary onOpen={openDocument} />
       </div>
+
+      <DiscardWorkDialog
+        open={pendingLeave !== null}
+        onOpenChange={(open) => !open && setPendingLeave(null)}
+        consequence={pendingLeave?.consequence ?? ""}
+        confirmLabel={pendingLeave?.confirmLabel ?? ""}
+        onConfirm={confirmLeave}
+      />
     </div>
   );
 };
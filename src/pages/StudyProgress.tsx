@@ -0,0 +1,192 @@
+import { useMemo } from "react";
+import { Link } from "react-router-dom";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { ArrowLeft, Flame, Target, Trophy } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { useStudyDecks } from "@/hooks/use-study-decks";
+import { accuracyByTopic, quizScoreSeries, retentionCurve, studyStreak } from "@/lib/study-stats";
+
+const scoreConfig = {
+  score: { label: "Score %", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const accuracyConfig = {
+  accuracy: { label: "Accuracy %", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const retentionConfig = {
+  retention: { label: "Remembered %", color: "hsl(var(--accent))" },
+} satisfies ChartConfig;
+
+const activityConfig = {
+  reviews: { label: "Card reviews", color: "hsl(var(--primary))" },
+  quizQuestions: { label: "Quiz questions", color: "hsl(var(--accent))" },
+} satisfies ChartConfig;
+
+interface ChartCardProps {
+  title: string;
+  description: string;
+  empty: boolean;
+  children: React.ReactNode;
+}
+
+const ChartCard = ({ title, description, empty, children }: ChartCardProps) => (
+  <Card className="p-6 space-y-4">
+    <div>
+      <h3 className="text-lg font-semibold text-foreground">{title}</h3>
+      <p className="text-sm text-muted-foreground">{description}</p>
+    </div>
+    {empty ? (
+      <div className="h-64 flex items-center justify-center text-sm text-muted-foreground text-center">
+        Not enough data yet
+      </div>
+    ) : (
+      children
+    )}
+  </Card>
+);
+
+const StudyProgress = () => {
+  const { decks, reviews, quizAttempts } = useStudyDecks();
+
+  const scores = useMemo(() => quizScoreSeries(quizAttempts), [quizAttempts]);
+  const topics = useMemo(() => accuracyByTopic(reviews, decks, quizAttempts).slice(0, 10), [reviews, decks, quizAttempts]);
+  const retention = useMemo(() => retentionCurve(reviews), [reviews]);
+  const streak = useMemo(() => studyStreak(reviews, quizAttempts), [reviews, quizAttempts]);
+
+  const averageScore = scores.length
+    ? Math.round(scores.reduce((sum, point) => sum + point.score, 0) / scores.length)
+    : null;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 py-16 max-w-7xl space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">Study Progress</h1>
+            <p className="text-muted-foreground">Quiz scores, flashcard retention and where to focus next</p>
+          </div>
+          <Button asChild variant="outline" className="gap-2">
+            <Link to="/">
+              <ArrowLeft className="w-4 h-4" />
+              Back to scanner
+            </Link>
+          </Button>
+        </div>
+
+        {/* Summary */}
+        <div className="grid sm:grid-cols-3 gap-4">
+          <Card className="p-4 flex items-center gap-3">
+            <Flame className="w-8 h-8 text-primary" />
+            <div>
+              <p className="text-2xl font-bold text-foreground">{streak.current} days</p>
+              <p className="text-xs text-muted-foreground">Current streak · best {streak.longest}</p>
+            </div>
+          </Card>
+          <Card className="p-4 flex items-center gap-3">
+            <Trophy className="w-8 h-8 text-primary" />
+            <div>
+              <p className="text-2xl font-bold text-foreground">{averageScore === null ? "–" : `${averageScore}%`}</p>
+              <p className="text-xs text-muted-foreground">Average quiz score · {scores.length} quizzes</p>
+            </div>
+          </Card>
+          <Card className="p-4 flex items-center gap-3">
+            <Target className="w-8 h-8 text-primary" />
+            <div>
+              <p className="text-2xl font-bold text-foreground">{reviews.length}</p>
+              <p className="text-xs text-muted-foreground">
+                Flashcard reviews · {decks.reduce((sum, deck) => sum + deck.cards.length, 0)} cards saved
+              </p>
+            </div>
+          </Card>
+        </div>
+
+        <div className="grid lg:grid-cols-2 gap-6">
+          <ChartCard
+            title="Quiz scores"
+            description="Each full quiz attempt, oldest first"
+            empty={scores.length === 0}
+          >
+            <ChartContainer config={scoreConfig} className="h-64 w-full">
+              <LineChart data={scores} margin={{ left: -20, right: 12 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                <YAxis domain={[0, 100]} tickLine={false} axisLine={false} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Line dataKey="score" type="monotone" stroke="var(--color-score)" strokeWidth={2} dot />
+              </LineChart>
+            </ChartContainer>
+          </ChartCard>
+
+          <ChartCard
+            title="Weakest topics"
+            description="Accuracy per flashcard tag and per quiz, lowest first"
+            empty={topics.length === 0}
+          >
+            <ChartContainer config={accuracyConfig} className="h-64 w-full">
+              <BarChart data={topics} layout="vertical" margin={{ left: 8, right: 12 }}>
+                <CartesianGrid horizontal={false} />
+                <XAxis type="number" domain={[0, 100]} tickLine={false} axisLine={false} />
+                <YAxis
+                  type="category"
+                  dataKey="topic"
+                  width={120}
+                  tickLine={false}
+                  axisLine={false}
+                  tickFormatter={(value: string) => (value.length > 18 ? `${value.slice(0, 17)}…` : value)}
+                />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="accuracy" fill="var(--color-accuracy)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          </ChartCard>
+
+          <ChartCard
+            title="Flashcard retention"
+            description="How often a card is remembered, by time since it was last reviewed"
+            empty={retention.length === 0}
+          >
+            <ChartContainer config={retentionConfig} className="h-64 w-full">
+              <LineChart data={retention} margin={{ left: -20, right: 12 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                <YAxis domain={[0, 100]} tickLine={false} axisLine={false} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Line dataKey="retention" type="monotone" stroke="var(--color-retention)" strokeWidth={2} dot />
+              </LineChart>
+            </ChartContainer>
+          </ChartCard>
+
+          <ChartCard
+            title="Daily activity"
+            description="Card reviews and quiz questions answered over the last 30 days"
+            empty={streak.longest === 0}
+          >
+            <ChartContainer config={activityConfig} className="h-64 w-full">
+              <BarChart data={streak.activity} margin={{ left: -20, right: 12 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={24} />
+                <YAxis allowDecimals={false} tickLine={false} axisLine={false} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="reviews" stackId="activity" fill="var(--color-reviews)" />
+                <Bar dataKey="quizQuestions" stackId="activity" fill="var(--color-quizQuestions)" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ChartContainer>
+          </ChartCard>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StudyProgress;
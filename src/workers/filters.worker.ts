@@ -0,0 +1,31 @@
+import { applyFilterPipeline, type FilterSettings } from "@/lib/filters";
+
+export interface FilterRequest {
+  id: number;
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+  settings: FilterSettings;
+}
+
+export interface FilterResponse {
+  id: number;
+  data?: Uint8ClampedArray;
+  error?: string;
+}
+
+self.onmessage = (e: MessageEvent<FilterRequest>) => {
+  const { id, data, width, height, settings } = e.data;
+
+  try {
+    const result = applyFilterPipeline({ data, width, height }, settings);
+    const response: FilterResponse = { id, data: result };
+    self.postMessage(response, { transfer: [result.buffer] });
+  } catch (error) {
+    const response: FilterResponse = {
+      id,
+      error: error instanceof Error ? error.message : "Filter pipeline failed",
+    };
+    self.postMessage(response);
+  }
+};
@@ -1,5 +1,7 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createProvider, type ProviderInfo } from "./providers.ts";
+import { completeStructured, jsonInstructions, type StructuredAction } from "./structured.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -10,24 +12,71 @@ interface RequestBody {
   text: string;
   action: 'qa' | 'lesson' | 'flashcards' | 'summarize' | 'quiz';
   question?: string;
+  language?: string;
+  /**
+   * Stream the answer as server-sent events instead of one JSON reply.
+   * Ignored for flashcards and quizzes, which must be complete to validate.
+   */
+  stream?: boolean;
 }
 
+const sseEvent = (payload: unknown) => `data: ${JSON.stringify(payload)}\n\n`;
+
+// Re-emits the provider's chunks as our own small SSE protocol:
+//   data: {"meta": {...}}   which provider and model answered
+//   data: {"delta": "..."}  for each chunk of text
+//   data: {"done": true}    once finished
+//   data: {"error": "..."}  if the upstream stream breaks
+// Cancelling the response (the user pressed Stop) aborts the upstream request.
+const relayStream = (chunks: AsyncGenerator<string>, info: ProviderInfo, controller: AbortController) => {
+  const encoder = new TextEncoder();
+  let sentMeta = false;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(out) {
+      if (!sentMeta) {
+        sentMeta = true;
+        out.enqueue(encoder.encode(sseEvent({ meta: info })));
+        return;
+      }
+
+      try {
+        const { done, value } = await chunks.next();
+        if (done) {
+          out.enqueue(encoder.encode(sseEvent({ done: true })));
+          out.close();
+          return;
+        }
+        out.enqueue(encoder.encode(sseEvent({ delta: value })));
+      } catch (error) {
+        console.error(`${info.provider} stream error:`, error);
+        const message = error instanceof Error ? error.message : 'The AI response was interrupted';
+        out.enqueue(encoder.encode(sseEvent({ error: message })));
+        out.close();
+      }
+    },
+    cancel() {
+      console.log('Client stopped the stream');
+      controller.abort();
+      chunks.return(undefined).catch(() => {});
+    },
+  });
+};
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const { text, action, question }: RequestBody = await req.json();
+    const { text, action, question, language, stream }: RequestBody = await req.json();
     
     if (!text) {
       throw new Error('Text is required');
     }
 
-    const GEMINI_API_KEY = Deno.env.get('GEMINI_API_KEY');
-    if (!GEMINI_API_KEY) {
-      throw new Error('GEMINI_API_KEY is not configured');
-    }
+    const provider = createProvider();
+    const info: ProviderInfo = { provider: provider.provider, model: provider.model };
 
     let systemPrompt = '';
     let userPrompt = '';
@@ -60,12 +109,12 @@ ${text}`;
 
       case 'flashcards':
         systemPrompt = 'You are an expert at creating educational flashcards. Extract key concepts and create clear, concise flashcards.';
-        userPrompt = `Create 8-12 flashcards from this text. Format each as:
-FRONT: [Question or term]
-BACK: [Answer or definition]
+        userPrompt = `Create 8-12 flashcards from this text. Each card has a question or term on the front, the answer or definition on the back, and one or two short topic tags.
 
 Make them concise and focused on key concepts.
 
+${jsonInstructions('flashcards')}
+
 Text:
 ${text}`;
         break;
@@ -85,18 +134,12 @@ ${text}`;
 
       case 'quiz':
         systemPrompt = 'You are an expert at creating engaging educational quizzes.';
-        userPrompt = `Create a 10-question quiz from this text. Format each question as:
-
-Q[number]: [Question]
-A) [Option A]
-B) [Option B]
-C) [Option C]
-D) [Option D]
-Correct Answer: [A/B/C/D]
-Explanation: [Brief explanation]
+        userPrompt = `Create a 10-question multiple-choice quiz from this text. Each question has four options, exactly one correct, a brief explanation of the answer and a difficulty rating.
 
 Mix question types: factual recall, comprehension, and application.
 
+${jsonInstructions('quiz')}
+
 Text:
 ${text}`;
         break;
@@ -105,49 +148,58 @@ ${text}`;
         throw new Error('Invalid action');
     }
 
-    console.log(`Processing ${action} request`);
-
-    const response = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-exp:generateContent?key=${GEMINI_API_KEY}`,
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          contents: [
-            {
-              parts: [
-                { text: systemPrompt },
-                { text: userPrompt }
-              ]
-            }
-          ],
-          generationConfig: {
-            temperature: 0.7,
-            topK: 40,
-            topP: 0.95,
-            maxOutputTokens: 2048,
-          }
-        }),
+    // Keep the output in the language the notes were written in, so an
+    // isiXhosa page produces an isiXhosa lesson or quiz.
+    if (language) {
+      systemPrompt += `\n\nThe source text is written in ${language}. Write your entire response in ${language}, even if these instructions are in English.`;
+      if (action === 'flashcards' || action === 'quiz') {
+        systemPrompt += ' Keep the JSON field names in English exactly as given.';
       }
+    }
+
+    console.log(
+      `Processing ${action} request with ${info.provider}/${info.model}` +
+        `${language ? ` in ${language}` : ''}${stream ? ' (streaming)' : ''}`
     );
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Gemini API error:', response.status, errorText);
-      throw new Error(`Gemini API error: ${response.status}`);
+    const controller = new AbortController();
+    const completion = {
+      system: systemPrompt,
+      prompt: userPrompt,
+      temperature: 0.7,
+      maxTokens: 2048,
+      signal: controller.signal,
+    };
+
+    if (action === 'flashcards' || action === 'quiz') {
+      const { data, attempts } = await completeStructured(provider, action as StructuredAction, completion);
+      return new Response(
+        JSON.stringify({ data, meta: { ...info, attempts } }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 200
+        }
+      );
     }
 
-    const data = await response.json();
-    const result = data.candidates?.[0]?.content?.parts?.[0]?.text;
+    if (stream) {
+      return new Response(relayStream(provider.stream(completion), info, controller), {
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+        },
+        status: 200,
+      });
+    }
 
+    const result = await provider.complete(completion);
     if (!result) {
-      throw new Error('No response from Gemini API');
+      throw new Error(`No response from ${info.provider}`);
     }
 
     return new Response(
-      JSON.stringify({ result }),
+      JSON.stringify({ result, meta: info }),
       { 
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         status: 200
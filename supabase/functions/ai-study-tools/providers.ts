@@ -0,0 +1,231 @@
+export interface CompletionRequest {
+  system: string;
+  prompt: string;
+  temperature: number;
+  maxTokens: number;
+  /** Ask the model for a JSON response where the API supports it */
+  json?: boolean;
+  signal?: AbortSignal;
+}
+
+export interface ProviderInfo {
+  provider: string;
+  model: string;
+}
+
+export interface LLMProvider extends ProviderInfo {
+  complete(request: CompletionRequest): Promise<string>;
+  /** Yields the answer in chunks as the model produces it */
+  stream(request: CompletionRequest): AsyncGenerator<string>;
+}
+
+// Yields the payload of each `data:` line of a server-sent event stream
+async function* readEventData(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        if (line.startsWith('data:')) yield line.slice(5).trim();
+      }
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+}
+
+const checkResponse = async (response: Response, provider: string) => {
+  if (response.ok) return;
+  const errorText = await response.text();
+  console.error(`${provider} API error:`, response.status, errorText);
+  throw new Error(`${provider} API error: ${response.status}`);
+};
+
+const requireEnv = (name: string) => {
+  const value = Deno.env.get(name);
+  if (!value) throw new Error(`${name} is not configured`);
+  return value;
+};
+
+interface GeminiResponse {
+  candidates?: { content?: { parts?: { text?: string }[] } }[];
+}
+
+const createGeminiProvider = (): LLMProvider => {
+  const apiKey = requireEnv('GEMINI_API_KEY');
+  const model = Deno.env.get('GEMINI_MODEL') ?? 'gemini-2.0-flash-exp';
+  const baseUrl = `https://generativelanguage.googleapis.com/v1beta/models/${model}`;
+
+  const body = ({ system, prompt, temperature, maxTokens, json }: CompletionRequest) =>
+    JSON.stringify({
+      contents: [{ parts: [{ text: system }, { text: prompt }] }],
+      generationConfig: {
+        temperature,
+        topK: 40,
+        topP: 0.95,
+        maxOutputTokens: maxTokens,
+        ...(json ? { responseMimeType: 'application/json' } : {}),
+      },
+    });
+
+  const textOf = (data: GeminiResponse) =>
+    data.candidates?.[0]?.content?.parts?.map((part) => part.text ?? '').join('') ?? '';
+
+  return {
+    provider: 'gemini',
+    model,
+    async complete(request) {
+      const response = await fetch(`${baseUrl}:generateContent?key=${apiKey}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: body(request),
+        signal: request.signal,
+      });
+      await checkResponse(response, 'Gemini');
+      return textOf(await response.json());
+    },
+    async *stream(request) {
+      const response = await fetch(`${baseUrl}:streamGenerateContent?alt=sse&key=${apiKey}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: body(request),
+        signal: request.signal,
+      });
+      await checkResponse(response, 'Gemini');
+      for await (const data of readEventData(response.body!)) {
+        const delta = textOf(JSON.parse(data));
+        if (delta) yield delta;
+      }
+    },
+  };
+};
+
+// Anything speaking the OpenAI chat completions API: OpenAI itself, or a
+// local llama.cpp / Ollama server for offline development
+const createOpenAICompatibleProvider = (): LLMProvider => {
+  const baseUrl = (Deno.env.get('OPENAI_BASE_URL') ?? 'http://localhost:11434/v1').replace(/\/$/, '');
+  const apiKey = Deno.env.get('OPENAI_API_KEY');
+  const model = Deno.env.get('OPENAI_MODEL') ?? 'llama3.1';
+
+  const send = (request: CompletionRequest, stream: boolean) =>
+    fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        messages: [
+          { role: 'system', content: request.system },
+          { role: 'user', content: request.prompt },
+        ],
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        ...(request.json ? { response_format: { type: 'json_object' } } : {}),
+        stream,
+      }),
+      signal: request.signal,
+    });
+
+  return {
+    provider: 'openai',
+    model,
+    async complete(request) {
+      const response = await send(request, false);
+      await checkResponse(response, 'OpenAI-compatible');
+      const data = await response.json();
+      return data.choices?.[0]?.message?.content ?? '';
+    },
+    async *stream(request) {
+      const response = await send(request, true);
+      await checkResponse(response, 'OpenAI-compatible');
+      for await (const data of readEventData(response.body!)) {
+        if (data === '[DONE]') return;
+        const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+    },
+  };
+};
+
+// Builds both flashcards and quiz questions from the sentences of the
+// prompt, so either structured action gets something valid to work with
+const mockJson = (prompt: string) => {
+  // The source text follows the instructions in every prompt
+  const source = prompt.split('Text:\n').pop() ?? prompt;
+  const sentences = (source.match(/[^.!?\n]{20,}[.!?]/g) ?? [source.slice(0, 120) || 'No text provided.'])
+    .map((sentence) => sentence.trim())
+    .slice(0, 8);
+  const topic = (sentence: string) => sentence.split(/\s+/).slice(0, 4).join(' ');
+
+  return JSON.stringify({
+    cards: sentences.map((sentence) => ({
+      front: `What does the text say about "${topic(sentence)}"?`,
+      back: sentence,
+      tags: ['mock'],
+    })),
+    questions: sentences.map((sentence, i) => {
+      const choices = [sentence, ...sentences.filter((other) => other !== sentence).slice(0, 2), 'None of these'];
+      // Rotate so the right answer isn't always first
+      const shift = i % choices.length;
+      return {
+        stem: 'Which statement appears in the text?',
+        options: choices.map((_, j) => choices[(j + shift) % choices.length]),
+        correctIndex: (choices.length - shift) % choices.length,
+        explanation: `The text states: "${sentence}"`,
+        difficulty: 'easy',
+      };
+    }),
+  });
+};
+
+// Same input, same output, no network: for tests (providers_test.ts) and working offline
+const createMockProvider = (): LLMProvider => {
+  const respond = ({ system, prompt, json }: CompletionRequest) => {
+    if (json) return mockJson(prompt);
+    const words = prompt.split(/\s+/).filter(Boolean);
+    return [
+      'This is a mock response.',
+      `Instructions: ${system.split('\n')[0]}`,
+      `The request had ${words.length} words and began: "${words.slice(0, 12).join(' ')}"`,
+    ].join('\n\n');
+  };
+
+  return {
+    provider: 'mock',
+    model: 'mock-1',
+    complete: async (request) => respond(request),
+    async *stream(request) {
+      for (const chunk of respond(request).match(/\S+\s*/g) ?? []) {
+        if (request.signal?.aborted) return;
+        yield chunk;
+      }
+    },
+  };
+};
+
+const PROVIDERS: Record<string, () => LLMProvider> = {
+  gemini: createGeminiProvider,
+  openai: createOpenAICompatibleProvider,
+  mock: createMockProvider,
+};
+
+/** Picks the provider named by LLM_PROVIDER, defaulting to Gemini */
+export const createProvider = (): LLMProvider => {
+  const name = (Deno.env.get('LLM_PROVIDER') ?? 'gemini').toLowerCase();
+  const factory = PROVIDERS[name];
+  if (!factory) {
+    throw new Error(`Unknown LLM_PROVIDER "${name}"; use one of ${Object.keys(PROVIDERS).join(', ')}`);
+  }
+  return factory();
+};
@@ -0,0 +1,120 @@
+// deno test --allow-env supabase/functions/ai-study-tools
+import {
+  assert,
+  assertEquals,
+  assertRejects,
+  assertStringIncludes,
+} from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { createProvider, type CompletionRequest, type LLMProvider } from './providers.ts';
+import { completeStructured } from './structured.ts';
+
+Deno.env.set('LLM_PROVIDER', 'mock');
+
+const TEXT = [
+  'Photosynthesis turns light into chemical energy.',
+  'Chlorophyll absorbs mostly red and blue light.',
+  'Plants release oxygen as a by-product of the process.',
+].join(' ');
+
+const request = (signal?: AbortSignal): CompletionRequest => ({
+  system: 'You are a patient tutor.\nKeep answers short.',
+  prompt: `Explain this text.\n\nText:\n${TEXT}`,
+  temperature: 0.3,
+  maxTokens: 500,
+  signal,
+});
+
+const collect = async (chunks: AsyncGenerator<string>) => {
+  const collected: string[] = [];
+  for await (const chunk of chunks) collected.push(chunk);
+  return collected;
+};
+
+// Answers with `bad` for the first `failures` calls, then like the mock
+const flakyProvider = (failures: number, bad = 'Sorry, here is no JSON') => {
+  const provider = createProvider();
+  const prompts: string[] = [];
+  const flaky: LLMProvider = {
+    ...provider,
+    complete: (req) => {
+      prompts.push(req.prompt);
+      return prompts.length <= failures ? Promise.resolve(bad) : provider.complete(req);
+    },
+  };
+  return { provider: flaky, prompts };
+};
+
+Deno.test('LLM_PROVIDER=mock selects the mock provider', () => {
+  const provider = createProvider();
+  assertEquals(provider.provider, 'mock');
+  assertEquals(provider.model, 'mock-1');
+});
+
+Deno.test('mock stream yields the complete answer in chunks', async () => {
+  const provider = createProvider();
+  const chunks = await collect(provider.stream(request()));
+
+  assert(chunks.length > 1);
+  assertEquals(chunks.join(''), await provider.complete(request()));
+  assertStringIncludes(chunks.join(''), 'Instructions: You are a patient tutor.');
+});
+
+Deno.test('mock stream stops once aborted', async () => {
+  const controller = new AbortController();
+  const chunks: string[] = [];
+  for await (const chunk of createProvider().stream(request(controller.signal))) {
+    chunks.push(chunk);
+    controller.abort();
+  }
+  assertEquals(chunks.length, 1);
+});
+
+Deno.test('completeStructured builds flashcards from the mock on the first attempt', async () => {
+  const { data, attempts } = await completeStructured(createProvider(), 'flashcards', request());
+
+  assertEquals(attempts, 1);
+  assert('flashcards' in data);
+  assertEquals(data.flashcards.length, 3);
+  data.flashcards.forEach((card) => assertStringIncludes(TEXT, card.back));
+});
+
+Deno.test('completeStructured quiz answers point at sentences from the text', async () => {
+  const { data } = await completeStructured(createProvider(), 'quiz', request());
+
+  assert('quiz' in data);
+  assertEquals(data.quiz.length, 3);
+  data.quiz.forEach((question) => {
+    assertEquals(question.options.length, 4);
+    assertStringIncludes(TEXT, question.options[question.correctIndex]);
+  });
+});
+
+Deno.test('completeStructured retries with the validation errors', async () => {
+  const { provider, prompts } = flakyProvider(1);
+  const { data, attempts } = await completeStructured(provider, 'flashcards', request());
+
+  assertEquals(attempts, 2);
+  assert('flashcards' in data && data.flashcards.length > 0);
+  assertStringIncludes(prompts[1], 'Your previous answer could not be used');
+  assertStringIncludes(prompts[1], 'Invalid JSON');
+  assertStringIncludes(prompts[1], 'Sorry, here is no JSON');
+});
+
+Deno.test('completeStructured rejects answers missing required fields', async () => {
+  const { provider, prompts } = flakyProvider(1, JSON.stringify({ cards: [{ front: 'Only a front' }] }));
+  const { attempts } = await completeStructured(provider, 'flashcards', request());
+
+  assertEquals(attempts, 2);
+  assertStringIncludes(prompts[1], 'cards[0] needs non-empty "front" and "back" strings');
+});
+
+Deno.test('completeStructured gives up after the last retry', async () => {
+  const { provider, prompts } = flakyProvider(Infinity);
+
+  await assertRejects(
+    () => completeStructured(provider, 'quiz', request()),
+    Error,
+    'did not return valid quiz after 3 attempts'
+  );
+  assertEquals(prompts.length, 3);
+});
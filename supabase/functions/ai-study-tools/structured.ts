@@ -0,0 +1,200 @@
+import type { CompletionRequest, LLMProvider } from "./providers.ts";
+
+export interface Flashcard {
+  front: string;
+  back: string;
+  tags: string[];
+}
+
+export type Difficulty = 'easy' | 'medium' | 'hard';
+
+export interface QuizQuestion {
+  stem: string;
+  options: string[];
+  correctIndex: number;
+  explanation: string;
+  difficulty: Difficulty;
+}
+
+export type StructuredAction = 'flashcards' | 'quiz';
+
+export type StructuredResult =
+  | { flashcards: Flashcard[] }
+  | { quiz: QuizQuestion[] };
+
+type Validation<T> = { value: T; errors: string[] };
+
+// Extra tries after the first answer, each told what was wrong last time
+const MAX_RETRIES = 2;
+
+export const SCHEMAS: Record<StructuredAction, string> = {
+  flashcards: `{
+  "cards": [
+    { "front": "question or term", "back": "answer or definition", "tags": ["topic"] }
+  ]
+}`,
+  quiz: `{
+  "questions": [
+    {
+      "stem": "the question",
+      "options": ["option A", "option B", "option C", "option D"],
+      "correctIndex": 0,
+      "explanation": "why the correct option is right",
+      "difficulty": "easy" | "medium" | "hard"
+    }
+  ]
+}`,
+};
+
+export const jsonInstructions = (action: StructuredAction) =>
+  `Respond with JSON only, no markdown fences or commentary, matching this shape:\n${SCHEMAS[action]}`;
+
+const isText = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+// Models like to wrap JSON in fences, add a preamble or leave trailing commas
+const parseLooseJson = (raw: string): unknown => {
+  let text = raw.trim().replace(/^```(?:json)?\s*/i, '').replace(/```\s*$/, '');
+  const start = text.search(/[[{]/);
+  const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'));
+  if (start >= 0 && end > start) text = text.slice(start, end + 1);
+  text = text.replace(/,\s*([}\]])/g, '$1');
+  return JSON.parse(text);
+};
+
+// Accepts either {"cards": [...]} or a bare array
+const listFrom = (data: unknown, key: string): unknown[] | null => {
+  if (Array.isArray(data)) return data;
+  if (data && typeof data === 'object' && Array.isArray((data as Record<string, unknown>)[key])) {
+    return (data as Record<string, unknown[]>)[key];
+  }
+  return null;
+};
+
+const validateFlashcards = (data: unknown): Validation<Flashcard[]> => {
+  const items = listFrom(data, 'cards');
+  if (!items) return { value: [], errors: ['Expected an object with a "cards" array'] };
+
+  const errors: string[] = [];
+  const value: Flashcard[] = [];
+  items.forEach((item, i) => {
+    const card = (item ?? {}) as Record<string, unknown>;
+    if (!isText(card.front) || !isText(card.back)) {
+      errors.push(`cards[${i}] needs non-empty "front" and "back" strings`);
+      return;
+    }
+    value.push({
+      front: card.front.trim(),
+      back: card.back.trim(),
+      tags: Array.isArray(card.tags) ? card.tags.filter(isText).map((tag) => tag.trim()) : [],
+    });
+  });
+  return { value, errors };
+};
+
+const DIFFICULTIES: Difficulty[] = ['easy', 'medium', 'hard'];
+
+// "B", "b)", 1 and "1" all name the second option
+const optionIndex = (value: unknown, count: number) => {
+  if (typeof value === 'number') return Number.isInteger(value) && value >= 0 && value < count ? value : -1;
+  if (typeof value !== 'string') return -1;
+  const letter = value.trim().match(/^([A-Za-z])\b/);
+  if (letter) {
+    const index = letter[1].toUpperCase().charCodeAt(0) - 65;
+    return index < count ? index : -1;
+  }
+  const number = Number(value);
+  return Number.isInteger(number) && number >= 0 && number < count ? number : -1;
+};
+
+const validateQuiz = (data: unknown): Validation<QuizQuestion[]> => {
+  const items = listFrom(data, 'questions');
+  if (!items) return { value: [], errors: ['Expected an object with a "questions" array'] };
+
+  const errors: string[] = [];
+  const value: QuizQuestion[] = [];
+  items.forEach((item, i) => {
+    const question = (item ?? {}) as Record<string, unknown>;
+    const options = Array.isArray(question.options) ? question.options.filter(isText) : [];
+    if (!isText(question.stem)) {
+      errors.push(`questions[${i}] needs a non-empty "stem"`);
+      return;
+    }
+    if (options.length < 2) {
+      errors.push(`questions[${i}] needs at least two "options"`);
+      return;
+    }
+    const correctIndex = optionIndex(question.correctIndex ?? question.answer, options.length);
+    if (correctIndex < 0) {
+      errors.push(`questions[${i}] "correctIndex" must be an index into its ${options.length} options`);
+      return;
+    }
+    const difficulty = String(question.difficulty ?? '').toLowerCase() as Difficulty;
+    value.push({
+      stem: question.stem.trim(),
+      options: options.map((option) => option.trim()),
+      correctIndex,
+      explanation: isText(question.explanation) ? question.explanation.trim() : '',
+      difficulty: DIFFICULTIES.includes(difficulty) ? difficulty : 'medium',
+    });
+  });
+  return { value, errors };
+};
+
+const validate = (action: StructuredAction, raw: string): Validation<StructuredResult> => {
+  let data: unknown;
+  try {
+    data = parseLooseJson(raw);
+  } catch (error) {
+    return {
+      value: action === 'flashcards' ? { flashcards: [] } : { quiz: [] },
+      errors: [`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`],
+    };
+  }
+
+  if (action === 'flashcards') {
+    const { value, errors } = validateFlashcards(data);
+    return { value: { flashcards: value }, errors };
+  }
+  const { value, errors } = validateQuiz(data);
+  return { value: { quiz: value }, errors };
+};
+
+const itemCount = (result: StructuredResult) =>
+  'flashcards' in result ? result.flashcards.length : result.quiz.length;
+
+/**
+ * Asks for JSON, then validates and normalises what comes back. A few bad
+ * items are dropped; if most of the answer is unusable the model is asked
+ * again with the validation errors so it can correct itself.
+ */
+export const completeStructured = async (
+  provider: LLMProvider,
+  action: StructuredAction,
+  request: CompletionRequest
+) => {
+  let prompt = request.prompt;
+
+  for (let attempt = 1; attempt <= MAX_RETRIES + 1; attempt++) {
+    const raw = await provider.complete({ ...request, prompt, json: true });
+    const { value, errors } = validate(action, raw);
+    const count = itemCount(value);
+
+    if (count > 0 && errors.length <= count) {
+      if (errors.length > 0) console.warn(`Dropped ${errors.length} invalid ${action} items:`, errors);
+      return { data: value, attempts: attempt };
+    }
+
+    console.warn(`Invalid ${action} JSON on attempt ${attempt}:`, errors.slice(0, 5));
+    prompt = `${request.prompt}
+
+Your previous answer could not be used:
+${errors.slice(0, 10).map((error) => `- ${error}`).join('\n')}
+
+Previous answer:
+${raw.slice(0, 4000)}
+
+${jsonInstructions(action)}`;
+  }
+
+  throw new Error(`The AI did not return valid ${action} after ${MAX_RETRIES + 1} attempts`);
+};